@@ -32,7 +32,9 @@ export interface Config {
     channel: string;
   };
 
-  queueConfig: string;
+  queues: string[];
+  /* The only queue, from before there were multiple queues; superseded by `queues` */
+  queueConfig?: string;
   requireEtf2lAccount: boolean;
 
   discord?: {
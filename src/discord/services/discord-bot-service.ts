@@ -6,6 +6,15 @@ import logger from '../../logger';
 import { Player, playerModel } from '../../players/models/player';
 import { PlayerBan } from '../../players/models/player-ban';
 
+export interface SubstituteRequestInfo {
+  gameId: string;
+  gameNumber: number;
+  playerId: string;
+  gameClass: string;
+  team: string;
+  map: string;
+}
+
 @provide(DiscordBotService)
 export class DiscordBotService {
 
@@ -26,11 +35,11 @@ export class DiscordBotService {
     }
   }
 
-  public notifyQueue(currentPlayerCount: number, targetPlayerCount: number) {
+  public notifyQueue(currentPlayerCount: number, targetPlayerCount: number, queueId: string) {
     if (this.enabled) {
       const channel = this.client.channels.get(this.config.discord.channels.queueNotifications) as discord.TextChannel;
       if (channel) {
-        channel.send(`<@&610855230992678922> ${currentPlayerCount}/${targetPlayerCount} in the queue.
+        channel.send(`<@&610855230992678922> ${currentPlayerCount}/${targetPlayerCount} in the ${queueId} queue.
         Go to ${this.config.clientUrl} and don't miss the next game!`);
       } else {
         logger.warn(`channel id ${this.config.discord.channels.queueNotifications} not found`);
@@ -74,4 +83,80 @@ export class DiscordBotService {
       }
     }
   }
+
+  public async notifyNoShow(playerId: string, gameNumber: number, gameId: string, noShowCount: number) {
+    if (this.enabled) {
+      const channelId = this.config.discord.channels.banNotifications;
+      const channel = this.client.channels.get(channelId) as discord.TextChannel;
+      if (channel) {
+        const player = await playerModel.findById(playerId);
+        const embed = new discord.RichEmbed()
+          .setColor('#ffc107')
+          .setTitle('Player did not join the game')
+          .addField('Player', player.name)
+          .addField('Game', `${this.config.clientUrl}/game/${gameId} (#${gameNumber})`)
+          .addField('No-shows so far', noShowCount)
+          .setTimestamp();
+        channel.send(embed);
+      }
+    }
+  }
+
+  /**
+   * @returns The id of the message sent, so that it can be updated once the request is closed.
+   */
+  public async notifySubstituteRequest(info: SubstituteRequestInfo): Promise<string> {
+    if (this.enabled) {
+      const channelId = this.config.discord.channels.queueNotifications;
+      const channel = this.client.channels.get(channelId) as discord.TextChannel;
+      if (channel) {
+        const embed = new discord.RichEmbed()
+          .setColor('#ff953e')
+          .setTitle('A substitute is needed')
+          .addField('Game', `${this.config.clientUrl}/game/${info.gameId} (#${info.gameNumber})`)
+          .addField('Class', info.gameClass, true)
+          .addField('Team', info.team, true)
+          .addField('Map', info.map, true)
+          .setTimestamp();
+        const message = await channel.send(embed) as discord.Message;
+        return message.id;
+      } else {
+        logger.warn(`channel id ${channelId} not found`);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Updates the substitute request message once the slot is taken or removes it if the request is gone.
+   * @param messageId The message sent about the request.
+   * @param replacementId The player that took the slot, if any.
+   */
+  public async closeSubstituteRequest(messageId: string, replacementId?: string) {
+    if (!this.enabled) {
+      return;
+    }
+
+    const channelId = this.config.discord.channels.queueNotifications;
+    const channel = this.client.channels.get(channelId) as discord.TextChannel;
+    if (!channel) {
+      logger.warn(`channel id ${channelId} not found`);
+      return;
+    }
+
+    const message = await channel.fetchMessage(messageId);
+    if (replacementId) {
+      const replacement = await playerModel.findById(replacementId);
+      const embed = new discord.RichEmbed(message.embeds[0])
+        .setColor('#33dc7f')
+        .setTitle('Substitute found')
+        .addField('Substitute', replacement?.name ?? 'unknown')
+        .setTimestamp();
+      await message.edit(embed);
+    } else {
+      await message.delete();
+    }
+  }
+
 }
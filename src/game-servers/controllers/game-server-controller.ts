@@ -1,17 +1,26 @@
-import { Response } from 'express';
-import { inject } from 'inversify';
-import { controller, httpDelete, httpGet, httpPost, requestBody, requestParam,
+import { DocumentType } from '@typegoose/typegoose';
+import { Request, Response } from 'express';
+import { inject, postConstruct } from 'inversify';
+import { controller, httpDelete, httpGet, httpPatch, httpPost, request, requestBody, requestParam,
     response } from 'inversify-express-utils';
+import { Types } from 'mongoose';
 import { ensureAuthenticated, ensureRole } from '../../auth';
+import { WsProviderService } from '../../core';
 import logger from '../../logger';
+import { Player } from '../../players/models/player';
 import { GameServer } from '../models';
+import { GameServerHealthService } from '../services/game-server-health-service';
 import { GameServerService } from '../services/game-server-service';
+import { rconConsoleRoom, RconConsoleService } from '../services/rcon-console-service';
 
 @controller('/game-servers')
 export class GameServerController {
 
   constructor(
     @inject(GameServerService) private gameServerService: GameServerService,
+    @inject(GameServerHealthService) private gameServerHealthService: GameServerHealthService,
+    @inject(RconConsoleService) private rconConsoleService: RconConsoleService,
+    @inject(WsProviderService) private wsProvider: WsProviderService,
   ) { }
 
   @httpGet('/')
@@ -34,6 +43,20 @@ export class GameServerController {
     }
   }
 
+  @httpGet('/:id/status')
+  public async getGameServerStatus(@requestParam('id') gameServerId: string, @response() res: Response) {
+    try {
+      const gameServer = await this.gameServerService.getGameServer(gameServerId);
+      if (gameServer) {
+        return res.status(200).send(this.gameServerHealthService.getStatus(gameServer));
+      } else {
+        return res.status(404).send({ message: 'no such game server' });
+      }
+    } catch (error) {
+      return res.status(400).send({ message: error.message });
+    }
+  }
+
   @httpPost('/', ensureAuthenticated, ensureRole('super-user'))
   public async addGameServer(@requestBody() gameServer: GameServer, @response() res: Response) {
     if (!gameServer) {
@@ -49,6 +72,68 @@ export class GameServerController {
     }
   }
 
+  /**
+   * Admins can only drain, disable and enable servers; the rest of the settings are up to super-users.
+   */
+  @httpPatch('/:id', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async updateGameServer(@requestParam('id') gameServerId: string, @requestBody() changes: Partial<GameServer>,
+                                @request() req: Request, @response() res: Response) {
+    const user = req.user as Player;
+    if (user.role !== 'super-user' && Object.keys(changes ?? { }).some(key => key !== 'availability')) {
+      return res.status(403).send('Forbidden');
+    }
+
+    try {
+      const ret = await this.gameServerService.updateGameServer(gameServerId, changes ?? { });
+      return res.status(200).send(ret.toJSON());
+    } catch (error) {
+      if (error.message === 'no such game server') {
+        return res.status(404).send({ message: error.message });
+      }
+
+      logger.error(error.message);
+      return res.status(400).send({ message: error.message });
+    }
+  }
+
+  @httpGet('/:id/rcon', ensureAuthenticated, ensureRole('super-user'))
+  public async getRconAuditLog(@requestParam('id') gameServerId: string, @response() res: Response) {
+    if (!Types.ObjectId.isValid(gameServerId)) {
+      return res.status(400).send({ message: 'invalid id' });
+    }
+
+    try {
+      if (!(await this.gameServerService.getGameServer(gameServerId))) {
+        return res.status(404).send({ message: 'no such game server' });
+      }
+
+      const entries = await this.rconConsoleService.getAuditLog(gameServerId);
+      return res.status(200).send(entries.map(e => e.toJSON()));
+    } catch (error) {
+      return res.status(500).send({ message: error.message });
+    }
+  }
+
+  @httpPost('/:id/rcon', ensureAuthenticated, ensureRole('super-user'))
+  public async runRconCommand(@requestParam('id') gameServerId: string, @requestBody() body: { command: string },
+                              @request() req: Request, @response() res: Response) {
+    try {
+      const user = req.user as { id: string };
+      const entry = await this.rconConsoleService.runCommand(gameServerId, user.id, body?.command);
+      return res.status(200).send(entry.toJSON());
+    } catch (error) {
+      if (error.message === 'no such game server') {
+        return res.status(404).send({ message: error.message });
+      }
+
+      if (error.message === 'forbidden') {
+        return res.status(403).send('Forbidden');
+      }
+
+      return res.status(400).send({ message: error.message });
+    }
+  }
+
   @httpDelete('/:id', ensureAuthenticated, ensureRole('super-user'))
   public async removeGameServer(@requestParam('id') gameServerId: string, @response() res: Response) {
     try {
@@ -59,4 +144,28 @@ export class GameServerController {
     }
   }
 
+  @postConstruct()
+  public setupWs() {
+    this.wsProvider.ws.on('connection', socket => {
+      if (socket.request.user.logged_in && socket.request.user.role === 'super-user') {
+        const player = socket.request.user as DocumentType<Player>;
+        socket.join(rconConsoleRoom);
+
+        socket.on('rcon command', async (gameServerId: string, command: string, done) => {
+          try {
+            const entry = await this.rconConsoleService.runCommand(gameServerId, player.id, command);
+            done({ value: entry.toJSON() });
+          } catch (error) {
+            // the player has been demoted since they connected
+            if (error.message === 'forbidden') {
+              socket.leave(rconConsoleRoom);
+            }
+
+            done({ error: error.message });
+          }
+        });
+      }
+    });
+  }
+
 }
@@ -1,7 +1,9 @@
-import { getModelForClass, prop, Ref } from '@typegoose/typegoose';
+import { getModelForClass, index, prop, Ref } from '@typegoose/typegoose';
 import { Game } from '../../games/models/game';
 import { GameServer } from './game-server';
 
+// a server can run one game at a time
+@index({ server: 1 }, { unique: true, partialFilterExpression: { gameRunning: true } })
 export class GameServerAssignment {
   @prop({ default: () => new Date() })
   public assignedAt?: Date;
@@ -0,0 +1,36 @@
+import { prop } from '@typegoose/typegoose';
+
+/**
+ * The result of a single health check of a game server.
+ */
+export class GameServerHealth {
+  @prop({ default: () => new Date() })
+  public checkedAt: Date;
+
+  @prop({ default: false })
+  public isOnline: boolean;
+
+  /* Why the server could not be queried */
+  @prop()
+  public queryError?: string;
+
+  /* How long it took the server to respond to the query */
+  @prop()
+  public latency?: number; // milliseconds
+
+  @prop()
+  public map?: string;
+
+  @prop()
+  public playerCount?: number;
+
+  @prop()
+  public maxPlayers?: number;
+
+  @prop({ default: false })
+  public rconReachable: boolean;
+
+  /* Why RCON commands could not be sent to the server */
+  @prop()
+  public rconError?: string;
+}
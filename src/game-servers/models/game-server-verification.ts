@@ -0,0 +1,27 @@
+import { arrayProp, prop } from '@typegoose/typegoose';
+
+/**
+ * What was found on the game server when it was last verified.
+ */
+export class GameServerVerification {
+  @prop({ default: () => new Date() })
+  public verifiedAt: Date;
+
+  @prop()
+  public sourcemodVersion?: string;
+
+  /* Names of the SourceMod plugins that are loaded */
+  @arrayProp({ items: String })
+  public plugins: string[];
+
+  @prop()
+  public tftrueVersion?: string;
+
+  /* Whether the plugin that manages the players of the game is loaded */
+  @prop({ default: false })
+  public hasGamePlayerCommands: boolean;
+
+  /* Components the server lacks to host pickup games */
+  @arrayProp({ items: String })
+  public missing: string[];
+}
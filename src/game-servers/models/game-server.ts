@@ -1,5 +1,9 @@
 import { arrayProp, DocumentType, getModelForClass, pre, prop } from '@typegoose/typegoose';
 import { renameId } from '../../utils';
+import { GameServerHealth } from './game-server-health';
+import { GameServerVerification } from './game-server-verification';
+
+export type GameServerAvailability = 'enabled' | 'draining' | 'disabled';
 
 function removeRcon(doc: DocumentType<GameServer>, ret: any) {
   ret = renameId(doc, ret);
@@ -36,9 +40,41 @@ export class GameServer {
   @prop({ required: true })
   public rconPassword!: string;
 
+  /* Where the server is located, e.g. eu */
+  @prop({ trim: true })
+  public region?: string;
+
+  /* Queues can limit the servers they use to the ones with certain tags */
+  @arrayProp({ items: String, default: [] })
+  public tags?: string[];
+
+  /* Servers with higher priority are picked first */
+  @prop({ default: 0 })
+  public priority?: number;
+
+  /* Draining servers finish the game they run, then they become disabled; disabled servers take no new games */
+  @prop({ default: 'enabled' })
+  public availability?: GameServerAvailability;
+
   @prop()
   public isOnline?: boolean;
 
+  /* The last time the server responded to a health check */
+  @prop()
+  public lastSeenAt?: Date;
+
+  /* The result of the latest health check */
+  @prop({ _id: false })
+  public health?: GameServerHealth;
+
+  /* The latest health checks, the oldest first */
+  @arrayProp({ items: GameServerHealth, _id: false })
+  public healthHistory?: GameServerHealth[];
+
+  /* What the latest verification found on the server */
+  @prop({ _id: false })
+  public verification?: GameServerVerification;
+
   @arrayProp({ items: String })
   public resolvedIpAddresses?: string[];
 
@@ -1,3 +1,8 @@
-export { GameServer, gameServerModel } from './game-server';
+export { GameServer, GameServerAvailability, gameServerModel } from './game-server';
 export { GameServerAssignment, gameServerAssignmentModel } from './game-server-assignment';
 export { ServerInfoForPlayer } from './server-info-for-player';
+export { GameServerHealth } from './game-server-health';
+export { GameServerVerification } from './game-server-verification';
+export { RconCommand, rconCommandModel } from './rcon-command';
+export { RconSendOptions, RconSession, RconTarget } from './rcon-session';
+export { RconAuditEntry, rconAuditEntryModel } from './rcon-audit-entry';
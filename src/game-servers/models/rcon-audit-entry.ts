@@ -0,0 +1,37 @@
+import { getModelForClass, prop, Ref } from '@typegoose/typegoose';
+import { Player } from '../../players/models/player';
+import { renameId } from '../../utils';
+import { GameServer } from './game-server';
+
+/**
+ * A command run by an admin on the game server through the RCON console.
+ */
+export class RconAuditEntry {
+  @prop({ ref: 'GameServer', required: true, index: true })
+  public server!: Ref<GameServer>;
+
+  @prop({ ref: 'Player', required: true })
+  public admin!: Ref<Player>;
+
+  @prop({ required: true })
+  public command!: string;
+
+  @prop()
+  public response?: string;
+
+  @prop()
+  public error?: string;
+
+  @prop({ default: () => new Date() })
+  public at?: Date;
+}
+
+export const rconAuditEntryModel = getModelForClass(RconAuditEntry, {
+  schemaOptions: {
+    toJSON: {
+      versionKey: false,
+      virtuals: true,
+      transform: renameId,
+    },
+  },
+});
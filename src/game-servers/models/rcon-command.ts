@@ -0,0 +1,40 @@
+import { getModelForClass, prop, Ref } from '@typegoose/typegoose';
+import { Game } from '../../games/models/game';
+import { renameId } from '../../utils';
+
+/**
+ * A single RCON command sent to the game server while it was hosting the given game.
+ */
+export class RconCommand {
+  @prop({ ref: 'Game', required: true, index: true })
+  public game!: Ref<Game>;
+
+  /* address:port of the server */
+  @prop({ required: true })
+  public server!: string;
+
+  @prop({ required: true })
+  public command!: string;
+
+  @prop()
+  public response?: string;
+
+  @prop()
+  public error?: string;
+
+  @prop({ default: 1 })
+  public attempts?: number;
+
+  @prop({ default: () => new Date() })
+  public at?: Date;
+}
+
+export const rconCommandModel = getModelForClass(RconCommand, {
+  schemaOptions: {
+    toJSON: {
+      versionKey: false,
+      virtuals: true,
+      transform: renameId,
+    },
+  },
+});
@@ -0,0 +1,24 @@
+/**
+ * Where RCON commands are sent to.
+ */
+export interface RconTarget {
+  name?: string;
+  address: string;
+  port: number;
+  rconPassword: string;
+}
+
+export interface RconSendOptions {
+  /* How many times the command is tried before giving up */
+  attempts?: number;
+
+  /* Whether running the command twice does no harm; only such commands are retried once they have been sent */
+  idempotent?: boolean;
+}
+
+/**
+ * Sends commands to a single game server, optionally on behalf of a game.
+ */
+export interface RconSession {
+  send(command: string, options?: RconSendOptions): Promise<string>;
+}
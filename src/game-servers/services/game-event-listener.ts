@@ -3,7 +3,11 @@ import { inject } from 'inversify';
 import { provide } from 'inversify-binding-decorators';
 import { LogMessage, LogReceiver } from 'srcds-log-receiver';
 import { Config } from '../../config';
+import { PlayerConnectionStatus } from '../../games/models/player-connection-status';
 import logger from '../../logger';
+import { parsePlayerConnection } from '../utils/parse-player-connection';
+import { parsePlayerStats, PlayerStatsEntry } from '../utils/parse-player-stats';
+import { parseTeamScore, TeamScoreEntry } from '../utils/parse-team-score';
 import { GameServerService } from './game-server-service';
 
 export interface GameEventSource {
@@ -40,10 +44,20 @@ export class GameEventListener extends EventEmitter {
       this.onMatchStarted(source);
     } else if (message.match(/^[\d\/\s-:]+World triggered \"Game_Over\" reason \".*\"$/)) {
       this.onMatchEnded(source);
+    } else if (parseTeamScore(message)) {
+      this.onTeamScore(source, parseTeamScore(message));
     } else if (message.match(/^[\d\/\s-:]+\[TFTrue\].+\shttp:\/\/logs\.tf\/(\d+)\..*$/)) {
       const matches = message.match(/^[\d\/\s-:]+\[TFTrue\].+\shttp:\/\/logs\.tf\/(\d+)\..*$/);
       const logsUrl = `http://logs.tf/${matches[1]}`;
       this.onLogsUploaded(source, logsUrl);
+    } else if (parsePlayerConnection(message)) {
+      const { steamId, status } = parsePlayerConnection(message);
+      this.onPlayerConnection(source, steamId, status);
+    } else {
+      const stats = parsePlayerStats(message);
+      if (stats.length > 0) {
+        this.onPlayerStats(source, stats);
+      }
     }
   }
 
@@ -61,6 +75,27 @@ export class GameEventListener extends EventEmitter {
     }
   }
 
+  private async onTeamScore(source: GameEventSource, { teamName, score, final }: TeamScoreEntry) {
+    const server = await this.gameServerService.getGameServerByEventSource(source);
+    if (server) {
+      this.emit('team score', { server, teamName, score, final });
+    }
+  }
+
+  private async onPlayerConnection(source: GameEventSource, steamId: string, status: PlayerConnectionStatus) {
+    const server = await this.gameServerService.getGameServerByEventSource(source);
+    if (server) {
+      this.emit('player connection', { server, steamId, status });
+    }
+  }
+
+  private async onPlayerStats(source: GameEventSource, stats: PlayerStatsEntry[]) {
+    const server = await this.gameServerService.getGameServerByEventSource(source);
+    if (server) {
+      this.emit('player stats', { server, stats });
+    }
+  }
+
   private async onLogsUploaded(source: GameEventSource, logsUrl: string) {
     const server = await this.gameServerService.getGameServerByEventSource(source);
     if (server) {
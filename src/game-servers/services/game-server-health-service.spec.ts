@@ -0,0 +1,123 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { WsProviderService } from '../../core';
+import { GameServer, GameServerHealth } from '../models';
+import * as checkServerHealth from '../utils/check-server-health';
+import { GameServerHealthService } from './game-server-health-service';
+import { GameServerService } from './game-server-service';
+import { RconService } from './rcon-service';
+
+class GameServerServiceStub {
+  public servers: any[] = [];
+  public getAllGameServers() { return Promise.resolve(this.servers); }
+  public getAssignedGame(server: any) { return Promise.resolve(null); }
+}
+
+const wsProviderStub = {
+  ws: {
+    emit: (...args: any[]) => null,
+  },
+};
+
+const rconServiceStub = {
+  session: (server: any) => ({ }),
+};
+
+const createServer = (isOnline: boolean) => ({
+  id: 'FAKE_SERVER_ID',
+  name: 'FAKE_SERVER',
+  isOnline,
+  save: () => Promise.resolve(),
+}) as unknown as DocumentType<GameServer>;
+
+const healthCheck = (isOnline: boolean): GameServerHealth =>
+  ({ checkedAt: new Date(), isOnline, rconReachable: isOnline, queryError: isOnline ? undefined : 'FAKE_ERROR' });
+
+// let the pending promises settle; the clock does not mock setImmediate
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('GameServerHealthService', () => {
+  let gameServerService: GameServerServiceStub;
+  let service: GameServerHealthService;
+
+  beforeEach(() => {
+    gameServerService = new GameServerServiceStub();
+    service = new GameServerHealthService(
+      gameServerService as unknown as GameServerService,
+      wsProviderStub as unknown as WsProviderService,
+      rconServiceStub as unknown as RconService,
+    );
+  });
+
+  describe('#checkServer()', () => {
+    it('should store the health of the server', async () => {
+      const health = healthCheck(true);
+      spyOn(checkServerHealth, 'checkServerHealth').and.returnValue(Promise.resolve(health));
+      const server = createServer(true);
+
+      await service.checkServer(server);
+      expect(server.health).toEqual(health);
+      expect(server.lastSeenAt).toEqual(health.checkedAt);
+      expect(service.getStatus(server).history).toEqual([ health ]);
+    });
+
+    it('should keep the latest 20 checks only', async () => {
+      spyOn(checkServerHealth, 'checkServerHealth').and.callFake(() => Promise.resolve(healthCheck(true)));
+      const server = createServer(true);
+
+      for (let i = 0; i < 25; ++i) {
+        await service.checkServer(server);
+      }
+
+      expect(service.getStatus(server).history.length).toEqual(20);
+      expect(service.getStatus(server).history[19]).toEqual(server.health);
+    });
+
+    it('should emit when the server goes down', async () => {
+      spyOn(checkServerHealth, 'checkServerHealth').and.returnValue(Promise.resolve(healthCheck(false)));
+      const spy = jasmine.createSpy('server_down');
+      service.on('server_down', spy);
+      const server = createServer(true);
+
+      await service.checkServer(server);
+      expect(server.isOnline).toBe(false);
+      expect(spy).toHaveBeenCalledWith(server, null);
+    });
+
+    it('should emit when the server is back online', async () => {
+      spyOn(checkServerHealth, 'checkServerHealth').and.returnValue(Promise.resolve(healthCheck(true)));
+      const spy = jasmine.createSpy('server_up');
+      service.on('server_up', spy);
+      const server = createServer(false);
+
+      await service.checkServer(server);
+      expect(spy).toHaveBeenCalledWith(server);
+    });
+  });
+
+  describe('periodic checks', () => {
+    beforeEach(() => jasmine.clock().install());
+    afterEach(() => jasmine.clock().uninstall());
+
+    it('should skip a server whose previous check has not finished', async () => {
+      let finishCheck: (health: GameServerHealth) => void;
+      const spy = spyOn(checkServerHealth, 'checkServerHealth').and.callFake(() =>
+        new Promise<GameServerHealth>(resolve => finishCheck = resolve));
+      gameServerService.servers = [ createServer(true) ];
+      service.initialize();
+
+      jasmine.clock().tick(30 * 1000);
+      await flushPromises();
+      expect(spy).toHaveBeenCalledTimes(1);
+
+      jasmine.clock().tick(30 * 1000);
+      await flushPromises();
+      expect(spy).toHaveBeenCalledTimes(1);
+
+      finishCheck(healthCheck(true));
+      await flushPromises();
+      jasmine.clock().tick(30 * 1000);
+      await flushPromises();
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
+});
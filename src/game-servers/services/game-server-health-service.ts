@@ -0,0 +1,113 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { EventEmitter } from 'events';
+import { inject, postConstruct } from 'inversify';
+import { provide } from 'inversify-binding-decorators';
+import { WsProviderService } from '../../core';
+import logger from '../../logger';
+import { GameServer, GameServerHealth } from '../models';
+import { checkServerHealth } from '../utils/check-server-health';
+import { GameServerService } from './game-server-service';
+import { RconService } from './rcon-service';
+
+const checkInterval = 30 * 1000; // 30 seconds
+const historyLength = 20;
+
+export interface GameServerStatus {
+  server: string;
+  isOnline: boolean;
+  lastSeenAt?: Date;
+  health?: GameServerHealth;
+  history: GameServerHealth[];
+}
+
+/**
+ * Checks all the game servers periodically and lets everybody know when one of them goes down.
+ */
+@provide(GameServerHealthService)
+export class GameServerHealthService extends EventEmitter {
+
+  // servers whose check has not finished yet; a check can take longer than the interval
+  private checksInProgress = new Set<string>();
+
+  constructor(
+    @inject(GameServerService) private gameServerService: GameServerService,
+    @inject(WsProviderService) private wsProvider: WsProviderService,
+    @inject(RconService) private rconService: RconService,
+  ) {
+    super();
+  }
+
+  public getStatus(server: DocumentType<GameServer>): GameServerStatus {
+    return {
+      server: server.id,
+      isOnline: !!server.isOnline,
+      lastSeenAt: server.lastSeenAt,
+      health: server.health,
+      history: server.healthHistory ?? [],
+    };
+  }
+
+  public async checkServer(server: DocumentType<GameServer>): Promise<GameServerHealth> {
+    const health = await checkServerHealth(server, this.rconService.session(server));
+    const wasOnline = server.isOnline;
+
+    server.health = health;
+    server.healthHistory = [ ...server.healthHistory ?? [], health ].slice(-historyLength);
+    server.isOnline = health.isOnline;
+    if (health.isOnline) {
+      server.lastSeenAt = health.checkedAt;
+    }
+
+    await server.save();
+
+    if (wasOnline && !health.isOnline) {
+      await this.onServerDown(server);
+    } else if (!wasOnline && health.isOnline) {
+      logger.info(`game server ${server.name} is back online`);
+      this.wsProvider.ws.emit('game server up', this.getStatus(server));
+      this.emit('server_up', server);
+    }
+
+    return health;
+  }
+
+  @postConstruct()
+  public initialize() {
+    setInterval(() => this.checkAllServers(), checkInterval);
+  }
+
+  private async checkAllServers() {
+    const servers = await this.gameServerService.getAllGameServers();
+    await Promise.all(servers
+      .filter(server => !this.checksInProgress.has(server.id))
+      .map(async server => {
+        this.checksInProgress.add(server.id);
+        try {
+          await this.checkServer(server);
+        } catch (error) {
+          logger.error(`could not check the health of ${server.name} (${error.message})`);
+        } finally {
+          this.checksInProgress.delete(server.id);
+        }
+      }));
+  }
+
+  private async onServerDown(server: DocumentType<GameServer>) {
+    const game = await this.gameServerService.getAssignedGame(server);
+    const runningGame = game && /launching|started/.test(game.state) ? game : null;
+    const reason = server.health?.queryError ?? 'unknown reason';
+    if (runningGame) {
+      logger.error(`game server ${server.name} went down while running game #${runningGame.number} (${reason})`);
+    } else {
+      logger.warn(`game server ${server.name} went down (${reason})`);
+    }
+
+    this.wsProvider.ws.emit('game server down', {
+      ...this.getStatus(server),
+      game: runningGame?.id,
+      gameNumber: runningGame?.number,
+    });
+    this.emit('server_down', server, runningGame);
+  }
+
+}
@@ -0,0 +1,154 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { connect } from 'mongoose';
+import { gameModel } from '../../games/models';
+import { GameServer, gameServerAssignmentModel, gameServerModel } from '../models';
+import { GameServerService } from './game-server-service';
+
+describe('GameServerService', () => {
+  let mongod: MongoMemoryServer;
+  let service: GameServerService;
+
+  beforeAll(async () => {
+    mongod = new MongoMemoryServer();
+    const uri = await mongod.getConnectionString();
+    await connect(uri, { useNewUrlParser: true });
+    await gameServerAssignmentModel.init();
+  });
+
+  afterAll(async () => await mongod.stop());
+
+  beforeEach(() => {
+    service = new GameServerService();
+  });
+
+  afterEach(async () => {
+    await gameModel.deleteMany({});
+    await gameServerModel.deleteMany({});
+    await gameServerAssignmentModel.deleteMany({});
+  });
+
+  describe('#getAssignedServer()', () => {
+    const createServer = (name: string) =>
+      gameServerModel.create({ name, address: `${name}.example.com`, port: 27015, rconPassword: 'FAKE_PASSWORD' });
+
+    it('should return the server the game has been moved to after a failed launch', async () => {
+      const game = await gameModel.create({ number: 1, state: 'launching' });
+      const serverA = await createServer('A');
+      const serverB = await createServer('B');
+
+      await service.assignGame(game, serverA);
+      await service.releaseServer(serverA);
+      await service.assignGame(game, serverB);
+
+      const otherGame = await gameModel.create({ number: 2, state: 'launching' });
+      await service.assignGame(otherGame, serverA);
+
+      expect((await service.getAssignedServer(game)).id).toEqual(serverB.id);
+      expect((await service.getAssignedServer(otherGame)).id).toEqual(serverA.id);
+    });
+
+    it('should return null once the server has been released', async () => {
+      const game = await gameModel.create({ number: 1, state: 'ended' });
+      const server = await createServer('A');
+
+      await service.assignGame(game, server);
+      await service.releaseServer(server);
+
+      expect(await service.getAssignedServer(game)).toBeNull();
+    });
+  });
+
+  describe('#assignFreeGameServer()', () => {
+    const createServer = (name: string) =>
+      gameServerModel.create({ name, address: `${name}.example.com`, port: 27015, rconPassword: 'FAKE_PASSWORD' });
+
+    it('should not assign two games to the same server', async () => {
+      const game = await gameModel.create({ number: 1, state: 'launching' });
+      const otherGame = await gameModel.create({ number: 2, state: 'launching' });
+      const server = await createServer('A');
+
+      await service.assignGame(game, server);
+      await expectAsync(service.assignGame(otherGame, server)).toBeRejected();
+    });
+
+    it('should try the next server when two games take the same one at the same time', async () => {
+      const games = await Promise.all([
+        gameModel.create({ number: 1, state: 'launching' }),
+        gameModel.create({ number: 2, state: 'launching' }),
+      ]);
+      await createServer('A');
+      await createServer('B');
+
+      const servers = await Promise.all(games.map(game => service.assignFreeGameServer(game)));
+      expect(servers.every(server => !!server)).toBe(true);
+      expect(servers[0].id).not.toEqual(servers[1].id);
+    });
+
+    it('should return null when there is no free server', async () => {
+      const game = await gameModel.create({ number: 1, state: 'launching' });
+      const otherGame = await gameModel.create({ number: 2, state: 'launching' });
+      await createServer('A');
+
+      expect(await service.assignFreeGameServer(game)).toBeTruthy();
+      expect(await service.assignFreeGameServer(otherGame)).toBeNull();
+    });
+  });
+
+  describe('#updateGameServer()', () => {
+    let server: DocumentType<GameServer>;
+
+    beforeEach(async () => {
+      server = await gameServerModel.create({
+        name: 'A', address: 'A.example.com', port: 27015, rconPassword: 'FAKE_PASSWORD',
+      });
+    });
+
+    it('should disable an idle server right away when it is drained', async () => {
+      const updated = await service.updateGameServer(server.id, { availability: 'draining' });
+      expect(updated.availability).toEqual('disabled');
+    });
+
+    it('should disable a draining server once its game is over', async () => {
+      const game = await gameModel.create({ number: 1, state: 'started' });
+      await service.assignGame(game, server);
+
+      const updated = await service.updateGameServer(server.id, { availability: 'draining' });
+      expect(updated.availability).toEqual('draining');
+
+      await service.releaseServer(server);
+      expect((await service.getGameServer(server.id)).availability).toEqual('disabled');
+    });
+
+    it('should not disable a server that is running a game', async () => {
+      const game = await gameModel.create({ number: 1, state: 'started' });
+      await service.assignGame(game, server);
+      await expectAsync(service.updateGameServer(server.id, { availability: 'disabled' }))
+        .toBeRejectedWithError('the server is running a game, drain it instead');
+    });
+
+    it('should not change the connection settings while the server is running a game', async () => {
+      const game = await gameModel.create({ number: 1, state: 'started' });
+      await service.assignGame(game, server);
+      await expectAsync(service.updateGameServer(server.id, { port: 27016 }))
+        .toBeRejectedWithError('cannot change the connection settings while the server is running a game');
+      expect((await service.getGameServer(server.id)).port).toEqual(27015);
+    });
+
+    it('should validate the types of the changes', async () => {
+      await expectAsync(service.updateGameServer(server.id, { region: 5 } as any))
+        .toBeRejectedWithError('region must be a string');
+      await expectAsync(service.updateGameServer(server.id, { tags: 'eu' } as any))
+        .toBeRejectedWithError('tags must be a list of strings');
+      await expectAsync(service.updateGameServer(server.id, { priority: '1' } as any))
+        .toBeRejectedWithError('priority must be a number');
+    });
+
+    it('should update the other settings', async () => {
+      const updated = await service.updateGameServer(server.id, { region: 'eu', tags: [ 'lan' ], priority: 2 });
+      expect(updated.region).toEqual('eu');
+      expect([ ...updated.tags ]).toEqual([ 'lan' ]);
+      expect(updated.priority).toEqual(2);
+    });
+  });
+});
@@ -1,19 +1,28 @@
 import { DocumentType } from '@typegoose/typegoose';
 import { resolve as resolveCb } from 'dns';
-import { postConstruct } from 'inversify';
+import { inject, postConstruct } from 'inversify';
 import { provide } from 'inversify-binding-decorators';
 import { promisify } from 'util';
 import { Game } from '../../games/models';
 import logger from '../../logger';
-import { GameServer, gameServerAssignmentModel, gameServerModel } from '../models';
-import { isServerOnline } from '../utils/is-server-online';
+import { GameServer, GameServerAssignment, gameServerAssignmentModel, GameServerAvailability,
+  gameServerModel } from '../models';
+import { GameServerPool, selectGameServer } from '../utils/select-game-server';
 import { verifyServer } from '../utils/verify-server';
+import { RconService } from './rcon-service';
 
 const resolve = promisify(resolveCb);
+const availabilities: GameServerAvailability[] = [ 'enabled', 'draining', 'disabled' ];
+const verificationInterval = 10 * 60 * 1000; // 10 minutes
+// how many times a game can miss a server that another game has just taken
+const maxAssignAttempts = 3;
+const duplicateKeyError = 11000;
 
 @provide(GameServerService)
 export class GameServerService {
 
+  @inject(RconService) private rconService: RconService;
+
   public async getAllGameServers(): Promise<Array<DocumentType<GameServer>>> {
     return await gameServerModel.find();
   }
@@ -23,16 +32,70 @@ export class GameServerService {
   }
 
   public async addGameServer(gameServer: GameServer): Promise<DocumentType<GameServer>> {
-    await verifyServer(gameServer);
+    gameServer.verification = await verifyServer(this.rconService.session(gameServer));
+    this.reportMissingComponents(gameServer);
     gameServer.isOnline = true;
+    gameServer.resolvedIpAddresses = await this.resolveAddresses(gameServer.address);
+    return await gameServerModel.create(gameServer);
+  }
 
-    try {
-      const addresses = await resolve(gameServer.address);
-      logger.info(`resolved addresses for ${gameServer.address}: ${addresses}`);
-      gameServer.resolvedIpAddresses = addresses;
-    } catch (error) { }
+  /**
+   * Alters the given server. Changing the connection settings requires the server to pass the verification again.
+   * @param gameServerId The server to be updated.
+   * @param changes Fields to be altered.
+   */
+  public async updateGameServer(gameServerId: string,
+                                changes: Partial<GameServer>): Promise<DocumentType<GameServer>> {
+    const gameServer = await this.getGameServer(gameServerId);
+    if (!gameServer) {
+      throw new Error('no such game server');
+    }
 
-    return await gameServerModel.create(gameServer);
+    this.validateChanges(changes);
+    const isRunningGame = await gameServerAssignmentModel.exists({ server: gameServer.id, gameRunning: true });
+    const connection = {
+      address: changes.address ?? gameServer.address,
+      port: changes.port ?? gameServer.port,
+      rconPassword: changes.rconPassword ?? gameServer.rconPassword,
+    };
+    const connectionChanged = connection.address !== gameServer.address || connection.port !== gameServer.port
+      || connection.rconPassword !== gameServer.rconPassword;
+
+    if (connectionChanged) {
+      if (isRunningGame) {
+        throw new Error('cannot change the connection settings while the server is running a game');
+      }
+
+      gameServer.verification = await verifyServer(this.rconService.session(connection));
+      this.reportMissingComponents(gameServer);
+      if (connection.address !== gameServer.address) {
+        gameServer.resolvedIpAddresses = await this.resolveAddresses(connection.address);
+      }
+
+      Object.assign(gameServer, connection);
+    }
+
+    if (changes.availability !== undefined) {
+      if (!availabilities.includes(changes.availability)) {
+        throw new Error(`invalid availability: ${changes.availability}`);
+      }
+
+      if (changes.availability === 'disabled' && isRunningGame) {
+        throw new Error('the server is running a game, drain it instead');
+      }
+
+      // there is nothing to wait for
+      gameServer.availability = changes.availability === 'draining' && !isRunningGame
+        ? 'disabled' : changes.availability;
+    }
+
+    gameServer.name = changes.name ?? gameServer.name;
+    gameServer.region = changes.region ?? gameServer.region;
+    gameServer.tags = changes.tags ?? gameServer.tags;
+    gameServer.priority = changes.priority ?? gameServer.priority;
+    await gameServer.save();
+    logger.info(`game server ${gameServer.name} updated`);
+    return gameServer;
   }
 
   public async removeGameServer(gameServerId: string) {
@@ -43,28 +106,57 @@ export class GameServerService {
     }
   }
 
-  public async getFreeGameServer(): Promise<GameServer> {
-    const allGameServers = await gameServerModel.find();
-    for (const gs of allGameServers) {
-      logger.debug(`checking availability of ${gs.name}...`);
+  /**
+   * Finds the best server that is not running any game at the moment.
+   * @param pool Limits the servers that can be used.
+   */
+  public async getFreeGameServer(pool?: GameServerPool): Promise<DocumentType<GameServer>> {
+    const [ allGameServers, runningAssignments, lastAssignments ] = await Promise.all([
+      gameServerModel.find(),
+      gameServerAssignmentModel.find({ gameRunning: true }),
+      gameServerAssignmentModel.aggregate([ { $group: { _id: '$server', lastUsedAt: { $max: '$assignedAt' } } } ]),
+    ]);
 
-      const games = await gameServerAssignmentModel
-        .find({ server: gs.id, gameRunning: true });
+    const busyServers = runningAssignments.map(a => a.server.toString());
+    const candidates = allGameServers
+      .filter(server => !busyServers.includes(server.id))
+      .map(server => ({
+        server,
+        lastUsedAt: lastAssignments.find(a => a._id.toString() === server.id)?.lastUsedAt,
+      }));
+    return selectGameServer(candidates, pool) as DocumentType<GameServer>;
+  }
+
+  /**
+   * Assigns the game to the best free server. When another game takes the same server at the same time,
+   * the next best server is tried.
+   * @returns The server the game has been assigned to or null if there is no free server.
+   */
+  public async assignFreeGameServer(game: Game, pool?: GameServerPool): Promise<DocumentType<GameServer>> {
+    for (let attempt = 0; attempt < maxAssignAttempts; ++attempt) {
+      const server = await this.getFreeGameServer(pool);
+      if (!server) {
+        return null;
+      }
 
-      if (games.length === 0) {
-        try {
-          await verifyServer(gs);
-          return gs;
-        } catch (error) {
-          logger.error(error.messsage);
-          continue;
+      try {
+        await this.assignGame(game, server);
+        return server;
+      } catch (error) {
+        if (error.code !== duplicateKeyError) {
+          throw error;
         }
+
+        logger.debug(`game server ${server.name} has just been taken by another game`);
       }
     }
 
     return null;
   }
 
+  /**
+   * @throws If the server is running another game already.
+   */
   public async assignGame(game: Game, server: GameServer) {
     await new gameServerAssignmentModel({ server, game, gameRunning: true }).save();
   }
@@ -74,6 +166,12 @@ export class GameServerService {
     if (assignment) {
       assignment.gameRunning = false;
       await assignment.save();
+
+      const { nModified } = await gameServerModel.updateOne({ _id: assignment.server, availability: 'draining' },
+        { availability: 'disabled' });
+      if (nModified > 0) {
+        logger.info(`game server ${server.name} drained`);
+      }
     }
   }
 
@@ -96,9 +194,25 @@ export class GameServerService {
     }
   }
 
+  /**
+   * Assignments of servers that have not been released yet, with both the server and the game populated.
+   */
+  public async getRunningAssignments(): Promise<Array<DocumentType<GameServerAssignment>>> {
+    return await gameServerAssignmentModel
+      .find({ gameRunning: true })
+      .populate('server')
+      .populate('game');
+  }
+
+  /**
+   * The server the given game is being played on.
+   * A game can be assigned more than one server over time, when launching it failed on any of them; servers
+   * that have been released are not the game's anymore.
+   * @returns null if the game is not running on any server.
+   */
   public async getAssignedServer(game: Game): Promise<DocumentType<GameServer>> {
     const assignment = await gameServerAssignmentModel
-      .findOne({ game })
+      .findOne({ game, gameRunning: true }, null, { sort: { assignedAt: -1 }})
       .populate('server');
 
     if (assignment) {
@@ -110,15 +224,59 @@ export class GameServerService {
 
   @postConstruct()
   public initialize() {
-    setInterval(() => this.checkAllServers(), 30 * 1000);
+    setInterval(() => this.verifyAllServers(), verificationInterval);
+  }
+
+  /**
+   * Servers that are running a game are not verified, so that the players are not affected.
+   */
+  private validateChanges(changes: Partial<GameServer>) {
+    if (changes.region !== undefined && typeof changes.region !== 'string') {
+      throw new Error('region must be a string');
+    }
+
+    const isListOfStrings = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+    if (changes.tags !== undefined && !isListOfStrings(changes.tags)) {
+      throw new Error('tags must be a list of strings');
+    }
+
+    if (changes.priority !== undefined && !Number.isFinite(changes.priority)) {
+      throw new Error('priority must be a number');
+    }
   }
 
-  private async checkAllServers() {
-    const allGameServers = await gameServerModel.find();
-    for (const server of allGameServers) {
-      const isOnline = await isServerOnline(server.address, server.port);
-      server.isOnline = isOnline;
-      await server.save();
+  private async verifyAllServers() {
+    const [ allGameServers, runningAssignments ] = await Promise.all([
+      gameServerModel.find(),
+      gameServerAssignmentModel.find({ gameRunning: true }),
+    ]);
+
+    const busyServers = runningAssignments.map(a => a.server.toString());
+    for (const gameServer of allGameServers.filter(server => !busyServers.includes(server.id))) {
+      try {
+        gameServer.verification = await verifyServer(this.rconService.session(gameServer));
+        await gameServer.save();
+        this.reportMissingComponents(gameServer);
+      } catch (error) {
+        logger.warn(`could not verify game server ${gameServer.name} (${error.message})`);
+      }
+    }
+  }
+
+  private reportMissingComponents(gameServer: GameServer) {
+    const { missing } = gameServer.verification;
+    if (missing.length > 0) {
+      logger.warn(`game server ${gameServer.name} is missing: ${missing.join(', ')}`);
+    }
+  }
+
+  private async resolveAddresses(address: string): Promise<string[]> {
+    try {
+      const addresses = await resolve(address);
+      logger.info(`resolved addresses for ${address}: ${addresses}`);
+      return addresses;
+    } catch (error) {
+      return undefined;
     }
   }
 
@@ -1,2 +1,5 @@
 export { GameServerService } from './game-server-service';
 export { GameEventListener } from './game-event-listener';
+export { GameServerHealthService } from './game-server-health-service';
+export { RconService } from './rcon-service';
+export { RconConsoleService } from './rcon-console-service';
@@ -0,0 +1,126 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { connect } from 'mongoose';
+import { WsProviderService } from '../../core';
+import { Player, playerModel } from '../../players/models/player';
+import { GameServer, gameServerModel, rconAuditEntryModel } from '../models';
+import { GameServerService } from './game-server-service';
+import { rconConsoleRoom, RconConsoleService } from './rcon-console-service';
+import { RconService } from './rcon-service';
+
+class GameServerServiceStub {
+  public server: DocumentType<GameServer>;
+  public getGameServer(gameServerId: string) { return Promise.resolve(this.server); }
+  public getAssignedGame(server: any) { return Promise.resolve(null); }
+}
+
+class RconServiceStub {
+  public send(server: any, command: string, gameId?: string, options?: any) { return Promise.resolve('FAKE_RESPONSE'); }
+}
+
+class SocketStub {
+  public emit = jasmine.createSpy('emit');
+  public leave = jasmine.createSpy('leave');
+  constructor(public request: { user: { id: string } }) { }
+}
+
+describe('RconConsoleService', () => {
+  const gameServerService = new GameServerServiceStub();
+  const rconService = new RconServiceStub();
+  const wsProvider = {
+    ws: {
+      sockets: {
+        adapter: { rooms: { } },
+        connected: { },
+      },
+    },
+  };
+  let mongod: MongoMemoryServer;
+  let service: RconConsoleService;
+  let superUser: DocumentType<Player>;
+
+  beforeAll(async () => {
+    mongod = new MongoMemoryServer();
+    const uri = await mongod.getConnectionString();
+    await connect(uri, { useNewUrlParser: true });
+  });
+
+  afterAll(async () => await mongod.stop());
+
+  beforeEach(async () => {
+    service = new RconConsoleService(
+      gameServerService as unknown as GameServerService,
+      rconService as unknown as RconService,
+      wsProvider as unknown as WsProviderService,
+    );
+
+    superUser = await playerModel.create({ name: 'FAKE_SUPER_USER', steamId: 'FAKE_STEAM_ID_1', role: 'super-user' });
+    gameServerService.server = await gameServerModel.create({
+      name: 'A', address: 'A.example.com', port: 27015, rconPassword: 'FAKE_PASSWORD',
+    });
+  });
+
+  afterEach(async () => {
+    wsProvider.ws.sockets.adapter.rooms = { };
+    wsProvider.ws.sockets.connected = { };
+    await playerModel.deleteMany({});
+    await gameServerModel.deleteMany({});
+    await rconAuditEntryModel.deleteMany({});
+  });
+
+  describe('#runCommand()', () => {
+    it('should store the command and its response in the audit log', async () => {
+      const entry = await service.runCommand(gameServerService.server.id, superUser.id, 'status');
+      expect(entry.response).toEqual('FAKE_RESPONSE');
+
+      const entries = await service.getAuditLog(gameServerService.server.id);
+      expect(entries.length).toEqual(1);
+      expect(entries[0].command).toEqual('status');
+      expect(entries[0].admin.toString()).toEqual(superUser.id);
+      expect(entries[0].response).toEqual('FAKE_RESPONSE');
+    });
+
+    it('should record the command before it is sent', async () => {
+      spyOn(rconService, 'send').and.callFake(async () => {
+        expect(await rconAuditEntryModel.countDocuments({ command: 'status' })).toEqual(1);
+        return 'FAKE_RESPONSE';
+      });
+      await service.runCommand(gameServerService.server.id, superUser.id, 'status');
+      expect(rconService.send).toHaveBeenCalled();
+    });
+
+    it('should record the failure of the command', async () => {
+      spyOn(rconService, 'send').and.returnValue(Promise.reject(new Error('FAKE_ERROR')));
+      await expectAsync(service.runCommand(gameServerService.server.id, superUser.id, 'status'))
+        .toBeRejectedWithError('command failed (FAKE_ERROR)');
+
+      const entries = await service.getAuditLog(gameServerService.server.id);
+      expect(entries.length).toEqual(1);
+      expect(entries[0].error).toEqual('FAKE_ERROR');
+    });
+
+    it('should reject players that are not super-users', async () => {
+      const admin = await playerModel.create({ name: 'FAKE_ADMIN', steamId: 'FAKE_STEAM_ID_2', role: 'admin' });
+      const spy = spyOn(rconService, 'send');
+      await expectAsync(service.runCommand(gameServerService.server.id, admin.id, 'status'))
+        .toBeRejectedWithError('forbidden');
+      expect(spy).not.toHaveBeenCalled();
+      expect(await rconAuditEntryModel.countDocuments()).toEqual(0);
+    });
+
+    it('should send the output to super-users only', async () => {
+      const admin = await playerModel.create({ name: 'FAKE_ADMIN', steamId: 'FAKE_STEAM_ID_2', role: 'admin' });
+      const superUserSocket = new SocketStub({ user: { id: superUser.id } });
+      const demotedSocket = new SocketStub({ user: { id: admin.id } });
+      wsProvider.ws.sockets.adapter.rooms = {
+        [rconConsoleRoom]: { sockets: { FAKE_SOCKET_1: true, FAKE_SOCKET_2: true } },
+      };
+      wsProvider.ws.sockets.connected = { FAKE_SOCKET_1: superUserSocket, FAKE_SOCKET_2: demotedSocket };
+
+      await service.runCommand(gameServerService.server.id, superUser.id, 'status');
+      expect(superUserSocket.emit).toHaveBeenCalledWith('rcon output', jasmine.objectContaining({ command: 'status' }));
+      expect(demotedSocket.emit).not.toHaveBeenCalled();
+      expect(demotedSocket.leave).toHaveBeenCalledWith(rconConsoleRoom);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { inject } from 'inversify';
+import { provide } from 'inversify-binding-decorators';
+import { WsProviderService } from '../../core';
+import logger from '../../logger';
+import { playerModel } from '../../players/models/player';
+import { RconAuditEntry, rconAuditEntryModel } from '../models';
+import { GameServerService } from './game-server-service';
+import { RconService } from './rcon-service';
+
+const maxCommandLength = 512;
+const auditLogLimit = 100;
+
+// sockets of the super-users that watch the console output
+export const rconConsoleRoom = 'rcon console';
+
+/**
+ * Lets super-users run arbitrary RCON commands on the game servers. Every command ends up in the audit log.
+ */
+@provide(RconConsoleService)
+export class RconConsoleService {
+
+  constructor(
+    @inject(GameServerService) private gameServerService: GameServerService,
+    @inject(RconService) private rconService: RconService,
+    @inject(WsProviderService) private wsProvider: WsProviderService,
+  ) { }
+
+  public async runCommand(gameServerId: string, adminId: string,
+                          command: string): Promise<DocumentType<RconAuditEntry>> {
+    if (typeof command !== 'string' || !command.trim()) {
+      throw new Error('command is required');
+    }
+
+    if (command.length > maxCommandLength) {
+      throw new Error(`command cannot be longer than ${maxCommandLength} characters`);
+    }
+
+    if (/[\r\n]/.test(command)) {
+      throw new Error('command cannot span multiple lines');
+    }
+
+    // the player could have been demoted since they signed in
+    const admin = await playerModel.findById(adminId);
+    if (admin?.role !== 'super-user') {
+      throw new Error('forbidden');
+    }
+
+    const server = await this.gameServerService.getGameServer(gameServerId);
+    if (!server) {
+      throw new Error('no such game server');
+    }
+
+    // show up in the command log of the game the server is running, too
+    const game = await this.gameServerService.getAssignedGame(server);
+    const gameId = game && /launching|started/.test(game.state) ? game.id : undefined;
+
+    // the command is on record even if the server or the backend goes down in the middle of it
+    logger.info(`[${server.name}] rcon command by ${adminId}: ${command}`);
+    const entry = await rconAuditEntryModel.create({ server: server.id, admin: adminId, command });
+    try {
+      entry.response = await this.rconService.send(server, command, gameId, { attempts: 1 });
+    } catch (error) {
+      entry.error = error.message;
+    }
+
+    await entry.save();
+    await this.broadcast(entry);
+
+    if (entry.error) {
+      throw new Error(`command failed (${entry.error})`);
+    }
+
+    return entry;
+  }
+
+  public async getAuditLog(gameServerId: string): Promise<Array<DocumentType<RconAuditEntry>>> {
+    return await rconAuditEntryModel.find({ server: gameServerId }).sort({ at: -1 }).limit(auditLogLimit);
+  }
+
+  /**
+   * Sends the output to the super-users that watch the console. Sockets of players that have been demoted since
+   * they joined the console are taken out of it.
+   */
+  private async broadcast(entry: DocumentType<RconAuditEntry>) {
+    const ws = this.wsProvider.ws;
+    const room = ws.sockets.adapter.rooms[rconConsoleRoom];
+    if (!room) {
+      return;
+    }
+
+    const superUsers = await playerModel.find({ role: 'super-user' });
+    Object.keys(room.sockets)
+      .map(socketId => ws.sockets.connected[socketId])
+      .filter(socket => !!socket)
+      .forEach(socket => {
+        if (superUsers.some(player => player.id === socket.request.user?.id)) {
+          socket.emit('rcon output', entry.toJSON());
+        } else {
+          socket.leave(rconConsoleRoom);
+        }
+      });
+  }
+
+}
@@ -0,0 +1,86 @@
+import { Rcon } from 'rcon-client';
+import { RconService } from './rcon-service';
+
+const server = { name: 'FAKE_SERVER', address: 'FAKE_ADDRESS', port: 27015, rconPassword: 'FAKE_RCON_PASSWORD' };
+
+describe('RconService', () => {
+  let service: RconService;
+  let connectSpy: jasmine.Spy;
+  let sendSpy: jasmine.Spy;
+
+  beforeEach(() => {
+    service = new RconService();
+    connectSpy = spyOn(Rcon.prototype, 'connect').and.callFake(function() { return Promise.resolve(this); });
+    sendSpy = spyOn(Rcon.prototype, 'send').and.callFake(command => Promise.resolve(`response to ${command}`));
+    spyOn(Rcon.prototype, 'end').and.returnValue(Promise.resolve());
+  });
+
+  it('should send the command', async () => {
+    expect(await service.send(server, 'status')).toEqual('response to status');
+    expect(sendSpy).toHaveBeenCalledWith('status');
+  });
+
+  it('should reuse the connection', async () => {
+    await service.send(server, 'status');
+    await service.send(server, 'version');
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reconnect when the rcon password changes', async () => {
+    await service.send(server, 'status');
+    await service.send({ ...server, rconPassword: 'ANOTHER_RCON_PASSWORD' }, 'status');
+    expect(connectSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send commands one by one', async () => {
+    const sent: string[] = [];
+    let pending = 0;
+    sendSpy.and.callFake(async command => {
+      expect(++pending).toEqual(1);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      sent.push(command);
+      --pending;
+      return command;
+    });
+
+    await Promise.all([ 'a', 'b', 'c' ].map(command => service.send(server, command)));
+    expect(sent).toEqual([ 'a', 'b', 'c' ]);
+  });
+
+  it('should retry failed idempotent commands', async () => {
+    sendSpy.and.returnValues(Promise.reject(new Error('timeout')), Promise.resolve('ok'));
+    expect(await service.send(server, 'status', undefined, { idempotent: true })).toEqual('ok');
+    expect(connectSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not repeat commands that failed after being sent', async () => {
+    sendSpy.and.returnValues(Promise.reject(new Error('timeout')), Promise.resolve('ok'));
+    await expectAsync(service.send(server, 'kickall')).toBeRejectedWithError('timeout');
+    expect(sendSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry commands that could not be sent', async () => {
+    connectSpy.and.returnValues(Promise.reject(new Error('connect ECONNREFUSED')), Promise.resolve());
+    expect(await service.send(server, 'kickall')).toEqual('response to kickall');
+    expect(sendSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after a number of attempts', async () => {
+    sendSpy.and.returnValue(Promise.reject(new Error('timeout')));
+    await expectAsync(service.send(server, 'status', undefined, { attempts: 2, idempotent: true }))
+      .toBeRejectedWithError('timeout');
+    expect(sendSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry when authentication fails', async () => {
+    connectSpy.and.returnValue(Promise.reject(new Error('Authentication failed')));
+    await expectAsync(service.send(server, 'status')).toBeRejectedWithError('Authentication failed');
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep going after a failed command', async () => {
+    sendSpy.and.returnValues(Promise.reject(new Error('timeout')), Promise.resolve('ok'));
+    await expectAsync(service.send(server, 'status', undefined, { attempts: 1 })).toBeRejected();
+    expect(await service.send(server, 'status')).toEqual('ok');
+  });
+});
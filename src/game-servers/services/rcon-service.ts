@@ -0,0 +1,155 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { provide } from 'inversify-binding-decorators';
+import { Rcon } from 'rcon-client';
+import logger from '../../logger';
+import { RconCommand, rconCommandModel, RconSendOptions, RconSession, RconTarget } from '../models';
+
+const commandTimeout = 30000; // 30 seconds
+const maxAttempts = 3;
+const retryDelay = 1000; // 1 second, multiplied by the attempt number
+const idleTimeout = 5 * 60 * 1000; // 5 minutes
+const maxLoggedResponseLength = 2000;
+
+interface Connection {
+  rcon?: Rcon;
+  password?: string;
+  // commands are sent one at a time
+  queue: Promise<any>;
+  idleTimer?: NodeJS.Timer;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isTransient(error: Error): boolean {
+  return !/authentication failed/i.test(error.message);
+}
+
+/**
+ * Keeps one RCON connection per game server open and sends commands through it.
+ * Commands to a single server are sent one by one. Commands that could not be sent because of network issues
+ * are retried; once a command has been sent, it is retried only if it is idempotent, as it could have been
+ * executed already.
+ */
+@provide(RconService)
+export class RconService {
+
+  private connections = new Map<string, Connection>();
+
+  /**
+   * @param server The server to talk to.
+   * @param gameId If set, all the commands are recorded in the command log of this game.
+   */
+  public session(server: RconTarget, gameId?: string): RconSession {
+    return {
+      send: (command: string, options?: RconSendOptions) => this.send(server, command, gameId, options),
+    };
+  }
+
+  public async send(server: RconTarget, command: string, gameId?: string,
+                    options: RconSendOptions = { }): Promise<string> {
+    const key = `${server.address}:${server.port}`;
+    if (!this.connections.has(key)) {
+      this.connections.set(key, { queue: Promise.resolve() });
+    }
+
+    const connection = this.connections.get(key);
+    const result = connection.queue.then(() => this.execute(connection, server, command, gameId,
+      options.attempts ?? maxAttempts, !!options.idempotent));
+    connection.queue = result.catch(() => null);
+    return await result;
+  }
+
+  public async getCommandLog(gameId: string): Promise<Array<DocumentType<RconCommand>>> {
+    return await rconCommandModel.find({ game: gameId }).sort({ at: 1 });
+  }
+
+  private async execute(connection: Connection, server: RconTarget, command: string, gameId: string,
+                        attempts: number, idempotent: boolean): Promise<string> {
+    let lastError: Error;
+    let attempt = 0;
+    while (attempt < attempts) {
+      ++attempt;
+      let sent = false;
+      try {
+        const rcon = await this.connect(connection, server);
+        logger.debug(`[${server.name ?? server.address}] ${command}`);
+        sent = true;
+        const response = await rcon.send(command);
+        this.keepAlive(connection);
+        await this.logCommand(server, gameId, { command, response, attempts: attempt });
+        return response;
+      } catch (error) {
+        lastError = error;
+        this.disconnect(connection);
+        if (!isTransient(error) || (sent && !idempotent)) {
+          break;
+        }
+
+        if (attempt < attempts) {
+          logger.debug(`[${server.name ?? server.address}] ${command} failed (${error.message}), retrying...`);
+          await delay(retryDelay * attempt);
+        }
+      }
+    }
+
+    await this.logCommand(server, gameId, { command, error: lastError.message, attempts: attempt });
+    throw lastError;
+  }
+
+  private async connect(connection: Connection, server: RconTarget): Promise<Rcon> {
+    if (connection.rcon && connection.password === server.rconPassword) {
+      return connection.rcon;
+    }
+
+    this.disconnect(connection);
+    const rcon = new Rcon({
+      host: server.address,
+      port: server.port,
+      password: server.rconPassword,
+      timeout: commandTimeout,
+    });
+    rcon.on('error', error => logger.debug(`[${server.name ?? server.address}] rcon error (${error.message})`));
+    rcon.on('end', () => {
+      if (connection.rcon === rcon) {
+        connection.rcon = null;
+      }
+    });
+
+    await rcon.connect();
+    connection.rcon = rcon;
+    connection.password = server.rconPassword;
+    return rcon;
+  }
+
+  private keepAlive(connection: Connection) {
+    clearTimeout(connection.idleTimer);
+    connection.idleTimer = setTimeout(() => this.disconnect(connection), idleTimeout);
+  }
+
+  private disconnect(connection: Connection) {
+    clearTimeout(connection.idleTimer);
+    const rcon = connection.rcon;
+    connection.rcon = null;
+    rcon?.end().catch(() => null);
+  }
+
+  private async logCommand(server: RconTarget, gameId: string, entry: Partial<RconCommand>) {
+    if (!gameId) {
+      return;
+    }
+
+    try {
+      await rconCommandModel.create({
+        ...entry,
+        game: gameId,
+        server: `${server.address}:${server.port}`,
+        response: entry.response?.substring(0, maxLoggedResponseLength),
+      });
+    } catch (error) {
+      logger.error(`could not log rcon command (${error.message})`);
+    }
+  }
+
+}
@@ -0,0 +1,68 @@
+import { buildVerificationReport } from './build-verification-report';
+
+const smVersion = ` SourceMod Version Information:
+    SourceMod Version: 1.10.0.6453
+    Metamod:Source Version: 1.10.7-dev
+    Build ID: 6453:5d3e9e8f
+    http://www.sourcemod.net/`;
+
+const smPluginsList = `[SM] Listed 3 plugins:
+  01 "Admin File Reader" (1.10.0.6453) by AlliedModders LLC
+  02 "tf2pickup.org connector" (0.1.0) by garrappachc
+  03 <Failed> "Basic Chat" (1.10.0.6453) by AlliedModders LLC`;
+
+const tftrueVersion = `"tftrue_version" = "4.86" ( def. "4.86" ) notify
+ - Version of the plugin TFTrue made by AnAkkk`;
+
+const unknownCommand = (command: string) => `Unknown command "${command}"`;
+
+describe('buildVerificationReport()', () => {
+  it('should report a properly configured server', () => {
+    const report = buildVerificationReport({
+      smVersion,
+      smPluginsList,
+      tftrueVersion,
+      gamePlayerAdd: '[SM] Usage: sm_game_player_add <steamid> [-name <name>] [-team <team>] [-class <class>]',
+    });
+    expect(report.sourcemodVersion).toEqual('1.10.0.6453');
+    expect(report.plugins).toEqual([ 'Admin File Reader', 'tf2pickup.org connector', 'Basic Chat' ]);
+    expect(report.tftrueVersion).toEqual('4.86');
+    expect(report.hasGamePlayerCommands).toBe(true);
+    expect(report.missing).toEqual([]);
+  });
+
+  it('should report missing sourcemod', () => {
+    const report = buildVerificationReport({
+      smVersion: unknownCommand('sm'),
+      smPluginsList: unknownCommand('sm'),
+      tftrueVersion,
+      gamePlayerAdd: unknownCommand('sm_game_player_add'),
+    });
+    expect(report.sourcemodVersion).toBeUndefined();
+    expect(report.plugins).toEqual([]);
+    expect(report.hasGamePlayerCommands).toBe(false);
+    expect(report.missing).toEqual([ 'sourcemod', 'sm_game_player_add' ]);
+  });
+
+  it('should report missing tftrue', () => {
+    const report = buildVerificationReport({
+      smVersion,
+      smPluginsList,
+      tftrueVersion: unknownCommand('tftrue_version'),
+      gamePlayerAdd: '[SM] Usage: sm_game_player_add <steamid>',
+    });
+    expect(report.tftrueVersion).toBeUndefined();
+    expect(report.missing).toEqual([ 'tftrue' ]);
+  });
+
+  it('should report missing game player commands', () => {
+    const report = buildVerificationReport({
+      smVersion,
+      smPluginsList,
+      tftrueVersion,
+      gamePlayerAdd: unknownCommand('sm_game_player_add'),
+    });
+    expect(report.hasGamePlayerCommands).toBe(false);
+    expect(report.missing).toEqual([ 'sm_game_player_add' ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { GameServerVerification } from '../models';
+
+export interface VerificationResponses {
+  smVersion: string; // sm version
+  smPluginsList: string; // sm plugins list
+  tftrueVersion: string; // tftrue_version
+  gamePlayerAdd: string; // sm_game_player_add
+}
+
+const unknownCommandRegex = /unknown command/i;
+const sourcemodVersionRegex = /SourceMod Version:\s*(\S+)/;
+const pluginRegex = /^\s*\d+\s+(?:<[^>]*>\s+)?"([^"]+)"/gm;
+const tftrueVersionRegex = /"tftrue_version" = "([^"]*)"/;
+
+/**
+ * Makes sense of what the game server responded with to the verification commands.
+ */
+export function buildVerificationReport(responses: VerificationResponses): GameServerVerification {
+  const sourcemodVersion = sourcemodVersionRegex.exec(responses.smVersion)?.[1];
+  const plugins = sourcemodVersion ? [ ...responses.smPluginsList.matchAll(pluginRegex) ].map(m => m[1]) : [];
+  const tftrueVersion = tftrueVersionRegex.exec(responses.tftrueVersion)?.[1] || undefined;
+  const hasGamePlayerCommands = !!sourcemodVersion && !unknownCommandRegex.test(responses.gamePlayerAdd);
+
+  const missing = [
+    !sourcemodVersion && 'sourcemod',
+    !tftrueVersion && 'tftrue',
+    !hasGamePlayerCommands && 'sm_game_player_add',
+  ].filter(name => !!name) as string[];
+
+  return {
+    verifiedAt: new Date(),
+    sourcemodVersion,
+    plugins,
+    tftrueVersion,
+    hasGamePlayerCommands,
+    missing,
+  };
+}
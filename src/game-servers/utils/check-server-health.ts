@@ -0,0 +1,35 @@
+import { query } from 'gamedig';
+import logger from '../../logger';
+import { GameServer, GameServerHealth, RconSession } from '../models';
+
+const timeout = 5000;
+
+/**
+ * Queries the server the way the players' clients do and checks whether RCON commands can be sent to it.
+ */
+export async function checkServerHealth(server: GameServer, rcon: RconSession): Promise<GameServerHealth> {
+  const health: GameServerHealth = { checkedAt: new Date(), isOnline: false, rconReachable: false };
+
+  try {
+    const start = Date.now();
+    const state = await query({ type: 'tf2', host: server.address, port: server.port, socketTimeout: timeout });
+    health.isOnline = true;
+    health.latency = Date.now() - start;
+    health.map = state.map;
+    health.playerCount = state.players.length;
+    health.maxPlayers = state.maxplayers;
+  } catch (error) {
+    health.queryError = error.message;
+    logger.debug(`could not query ${server.name} (${error.message})`);
+  }
+
+  try {
+    await rcon.send('version', { attempts: 1 });
+    health.rconReachable = true;
+  } catch (error) {
+    health.rconError = error.message;
+    logger.debug(`could not reach ${server.name} over RCON (${error.message})`);
+  }
+
+  return health;
+}
@@ -0,0 +1,30 @@
+import { parsePlayerConnection } from './parse-player-connection';
+
+describe('parsePlayerConnection()', () => {
+  const prefix = '10/21/2019 - 20:15:03: ';
+  const steamId = '76561198074409147';
+
+  it('should parse connecting players', () => {
+    expect(parsePlayerConnection(`${prefix}"maly<3><[U:1:114143419]><>" connected, address "1.2.3.4:27005"`))
+      .toEqual({ steamId, status: 'joining' });
+  });
+
+  it('should parse players entering the game', () => {
+    expect(parsePlayerConnection(`${prefix}"maly<3><[U:1:114143419]><>" entered the game`))
+      .toEqual({ steamId, status: 'connected' });
+  });
+
+  it('should parse players joining a team', () => {
+    expect(parsePlayerConnection(`${prefix}"maly<3><[U:1:114143419]><Unassigned>" joined team "Blue"`))
+      .toEqual({ steamId, status: 'connected' });
+  });
+
+  it('should parse disconnecting players', () => {
+    expect(parsePlayerConnection(`${prefix}"maly<3><[U:1:114143419]><Blue>" disconnected (reason "Disconnect")`))
+      .toEqual({ steamId, status: 'offline' });
+  });
+
+  it('should ignore other lines', () => {
+    expect(parsePlayerConnection(`${prefix}"maly<3><[U:1:114143419]><Blue>" say "gg"`)).toBeNull();
+  });
+});
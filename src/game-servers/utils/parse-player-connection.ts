@@ -0,0 +1,33 @@
+import { PlayerConnectionStatus } from '../../games/models/player-connection-status';
+import { toSteamId64 } from './steam-id';
+
+export interface PlayerConnectionEntry {
+  steamId: string; // SteamID64
+  status: PlayerConnectionStatus;
+}
+
+// "Name<12><[U:1:12345]><>", the team is empty until the player picks one
+const player = '".*?<\\d+><(\\[U:1:\\d+\\])><\\w*>"';
+const timestamp = '^[\\d\\/\\s-:]+';
+
+const rules: Array<{ regex: RegExp, status: PlayerConnectionStatus }> = [
+  { regex: new RegExp(`${timestamp}${player} connected, address `), status: 'joining' },
+  { regex: new RegExp(`${timestamp}${player} entered the game$`), status: 'connected' },
+  { regex: new RegExp(`${timestamp}${player} joined team "(Red|Blue)"$`), status: 'connected' },
+  { regex: new RegExp(`${timestamp}${player} disconnected \\(reason `), status: 'offline' },
+];
+
+/**
+ * Tells whether the given srcds log line is about a player connecting to or leaving the server.
+ * @returns null if the line has nothing to do with player connections.
+ */
+export function parsePlayerConnection(message: string): PlayerConnectionEntry {
+  for (const rule of rules) {
+    const matches = message.match(rule.regex);
+    if (matches) {
+      return { steamId: toSteamId64(matches[1]), status: rule.status };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,56 @@
+import { parsePlayerStats } from './parse-player-stats';
+
+describe('parsePlayerStats()', () => {
+  const prefix = '10/21/2019 - 20:17:24: ';
+  const scout = '"maly<3><[U:1:114143419]><Blue>"';
+  const medic = '"Kaput<7><[U:1:96827938]><Red>"';
+  const scoutId = '76561198074409147';
+  const medicId = '76561198057093666';
+
+  it('should parse kills', () => {
+    const message = `${prefix}${scout} killed ${medic} with "scattergun" (attacker_position "1 2 3") (victim_position "4 5 6")`;
+    expect(parsePlayerStats(message)).toEqual([
+      { steamId: scoutId, stat: 'kills', value: 1 },
+      { steamId: medicId, stat: 'deaths', value: 1 },
+    ]);
+  });
+
+  it('should parse suicides', () => {
+    expect(parsePlayerStats(`${prefix}${scout} committed suicide with "world" (attacker_position "1 2 3")`))
+      .toEqual([ { steamId: scoutId, stat: 'deaths', value: 1 } ]);
+  });
+
+  it('should parse kill assists', () => {
+    expect(parsePlayerStats(`${prefix}${medic} triggered "kill assist" against ${scout} (assister_position "1 2 3")`))
+      .toEqual([ { steamId: medicId, stat: 'assists', value: 1 } ]);
+  });
+
+  it('should parse damage', () => {
+    expect(parsePlayerStats(`${prefix}${scout} triggered "damage" against ${medic} (damage "54") (weapon "scattergun")`))
+      .toEqual([ { steamId: scoutId, stat: 'damage', value: 54 } ]);
+  });
+
+  it('should parse heals', () => {
+    expect(parsePlayerStats(`${prefix}${medic} triggered "healed" against ${scout} (healing "112")`))
+      .toEqual([ { steamId: medicId, stat: 'heals', value: 112 } ]);
+  });
+
+  it('should parse ubers', () => {
+    expect(parsePlayerStats(`${prefix}${medic} triggered "chargedeployed" (medigun "medigun")`))
+      .toEqual([ { steamId: medicId, stat: 'ubers', value: 1 } ]);
+  });
+
+  it('should parse drops', () => {
+    expect(parsePlayerStats(`${prefix}${scout} triggered "medic_death" against ${medic} (healing "400") (ubercharge "1")`))
+      .toEqual([ { steamId: medicId, stat: 'drops', value: 1 } ]);
+  });
+
+  it('should not count medic deaths without uber as drops', () => {
+    expect(parsePlayerStats(`${prefix}${scout} triggered "medic_death" against ${medic} (healing "400") (ubercharge "0")`))
+      .toEqual([]);
+  });
+
+  it('should ignore other lines', () => {
+    expect(parsePlayerStats(`${prefix}World triggered "Round_Start"`)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { toSteamId64 } from './steam-id';
+
+export type PlayerStatName = 'kills' | 'deaths' | 'assists' | 'damage' | 'heals' | 'ubers' | 'drops';
+
+export interface PlayerStatsEntry {
+  steamId: string; // SteamID64
+  stat: PlayerStatName;
+  value: number;
+}
+
+// "Name<12><[U:1:12345]><Red>"
+const player = '".*?<\\d+><(\\[U:1:\\d+\\])><(?:Red|Blue)>"';
+const timestamp = '^[\\d\\/\\s-:]+';
+
+function entry(steamId3: string, stat: PlayerStatName, value = 1): PlayerStatsEntry {
+  return { steamId: toSteamId64(steamId3), stat, value };
+}
+
+const rules: Array<{ regex: RegExp, stats: (matches: RegExpMatchArray) => PlayerStatsEntry[] }> = [
+  {
+    regex: new RegExp(`${timestamp}${player} killed ${player} with `),
+    stats: matches => [ entry(matches[1], 'kills'), entry(matches[2], 'deaths') ],
+  },
+  {
+    regex: new RegExp(`${timestamp}${player} committed suicide with `),
+    stats: matches => [ entry(matches[1], 'deaths') ],
+  },
+  {
+    regex: new RegExp(`${timestamp}${player} triggered "kill assist" against ${player}`),
+    stats: matches => [ entry(matches[1], 'assists') ],
+  },
+  {
+    regex: new RegExp(`${timestamp}${player} triggered "damage" against ${player} \\(damage "(\\d+)"\\)`),
+    stats: matches => [ entry(matches[1], 'damage', parseInt(matches[3], 10)) ],
+  },
+  {
+    regex: new RegExp(`${timestamp}${player} triggered "healed" against ${player} \\(healing "(\\d+)"\\)`),
+    stats: matches => [ entry(matches[1], 'heals', parseInt(matches[3], 10)) ],
+  },
+  {
+    regex: new RegExp(`${timestamp}${player} triggered "chargedeployed"`),
+    stats: matches => [ entry(matches[1], 'ubers') ],
+  },
+  {
+    // the medic that died is the one who dropped
+    regex: new RegExp(`${timestamp}${player} triggered "medic_death" against ${player} .*\\(ubercharge "1"\\)`),
+    stats: matches => [ entry(matches[2], 'drops') ],
+  },
+];
+
+/**
+ * Turns a single srcds log line into stats of the players involved.
+ * @returns An empty array if the line has nothing to do with player stats.
+ */
+export function parsePlayerStats(message: string): PlayerStatsEntry[] {
+  for (const rule of rules) {
+    const matches = message.match(rule.regex);
+    if (matches) {
+      return rule.stats(matches);
+    }
+  }
+
+  return [];
+}
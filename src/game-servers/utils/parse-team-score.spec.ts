@@ -0,0 +1,20 @@
+import { parseTeamScore } from './parse-team-score';
+
+describe('parseTeamScore()', () => {
+  const prefix = '10/21/2019 - 20:15:03: ';
+
+  it('should parse the current score', () => {
+    expect(parseTeamScore(`${prefix}Team "Red" current score "2" with "6" players`))
+      .toEqual({ teamName: 'RED', score: 2, final: false });
+  });
+
+  it('should parse the final score', () => {
+    expect(parseTeamScore(`${prefix}Team "Blue" final score "5" with "6" players`))
+      .toEqual({ teamName: 'BLU', score: 5, final: true });
+  });
+
+  it('should ignore other lines', () => {
+    expect(parseTeamScore(`${prefix}World triggered "Round_Win" (winner "Blue")`)).toBeNull();
+    expect(parseTeamScore(`${prefix}Team "Spectator" final score "0" with "1" players`)).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+export interface TeamScoreEntry {
+  teamName: string; // as the game names the team, i.e. RED or BLU
+  score: number;
+  final: boolean; // whether the match is over
+}
+
+// team names as they appear in the logs vs team names of the game
+const logTeamNames = {
+  Red: 'RED',
+  Blue: 'BLU',
+};
+
+// Team "Red" current score "1" with "6" players
+const teamScoreRegex = /^[\d\/\s-:]+Team \"(Red|Blue)\" (current|final) score \"(\d+)\" with \"\d+\" players$/;
+
+/**
+ * The score of each team is logged after every round and once more when the match ends.
+ * @returns null if the line is not a team score.
+ */
+export function parseTeamScore(message: string): TeamScoreEntry {
+  const matches = message.match(teamScoreRegex);
+  if (!matches) {
+    return null;
+  }
+
+  return {
+    teamName: logTeamNames[matches[1]],
+    score: parseInt(matches[3], 10),
+    final: matches[2] === 'final',
+  };
+}
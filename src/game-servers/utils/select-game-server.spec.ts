@@ -0,0 +1,93 @@
+import { GameServer } from '../models';
+import { isAvailable, isHealthy, isInPool, selectGameServer } from './select-game-server';
+
+function server(name: string, props: Partial<GameServer> = { }): GameServer {
+  return { name, address: 'localhost', port: 27015, rconPassword: 'FAKE_RCON_PASSWORD', ...props };
+}
+
+const healthy = (latency: number) => ({ checkedAt: new Date(), isOnline: true, rconReachable: true, latency });
+
+describe('isInPool()', () => {
+  it('should accept any region if none is required', () => {
+    expect(isInPool(server('A', { region: 'eu' }), { regions: [], tags: [] })).toBe(true);
+  });
+
+  it('should check the region', () => {
+    expect(isInPool(server('A', { region: 'eu' }), { regions: [ 'na' ], tags: [] })).toBe(false);
+    expect(isInPool(server('A', { region: 'eu' }), { regions: [ 'na', 'eu' ], tags: [] })).toBe(true);
+  });
+
+  it('should require all the tags', () => {
+    const pool = { regions: [], tags: [ 'pickup', 'highlander' ] };
+    expect(isInPool(server('A', { tags: [ 'pickup' ] }), pool)).toBe(false);
+    expect(isInPool(server('A', { tags: [ 'pickup', 'highlander', 'extra' ] }), pool)).toBe(true);
+  });
+});
+
+describe('isHealthy()', () => {
+  it('should accept servers that have not been checked yet', () => {
+    expect(isHealthy(server('A'))).toBe(true);
+  });
+
+  it('should deny servers that failed the last check', () => {
+    expect(isHealthy(server('A', { health: { ...healthy(10), isOnline: false } }))).toBe(false);
+    expect(isHealthy(server('A', { health: { ...healthy(10), rconReachable: false } }))).toBe(false);
+  });
+});
+
+describe('isAvailable()', () => {
+  it('should accept enabled servers only', () => {
+    expect(isAvailable(server('A'))).toBe(true);
+    expect(isAvailable(server('A', { availability: 'enabled' }))).toBe(true);
+    expect(isAvailable(server('A', { availability: 'draining' }))).toBe(false);
+    expect(isAvailable(server('A', { availability: 'disabled' }))).toBe(false);
+  });
+});
+
+describe('selectGameServer()', () => {
+  it('should return null if there are no candidates', () => {
+    expect(selectGameServer([])).toBe(null);
+  });
+
+  it('should skip unhealthy servers', () => {
+    const a = server('A', { health: { ...healthy(10), isOnline: false } });
+    const b = server('B', { health: healthy(50) });
+    expect(selectGameServer([ { server: a }, { server: b } ])).toBe(b);
+  });
+
+  it('should skip servers that are out of rotation', () => {
+    const a = server('A', { availability: 'disabled', priority: 1 });
+    const b = server('B');
+    expect(selectGameServer([ { server: a }, { server: b } ])).toBe(b);
+  });
+
+  it('should skip servers outside the pool', () => {
+    const a = server('A', { region: 'na' });
+    const b = server('B', { region: 'eu' });
+    expect(selectGameServer([ { server: a }, { server: b } ], { regions: [ 'eu' ], tags: [] })).toBe(b);
+  });
+
+  it('should prefer higher priority', () => {
+    const a = server('A', { priority: 0, health: healthy(10) });
+    const b = server('B', { priority: 1, health: healthy(80) });
+    expect(selectGameServer([ { server: a }, { server: b } ])).toBe(b);
+  });
+
+  it('should prefer lower latency', () => {
+    const a = server('A', { health: healthy(80) });
+    const b = server('B', { health: healthy(10) });
+    const c = server('C');
+    expect(selectGameServer([ { server: a }, { server: b }, { server: c } ])).toBe(b);
+  });
+
+  it('should prefer the least recently used server', () => {
+    const a = server('A', { health: healthy(10) });
+    const b = server('B', { health: healthy(12) });
+    const c = server('C', { health: healthy(15) });
+    expect(selectGameServer([
+      { server: a, lastUsedAt: new Date(2000) },
+      { server: b },
+      { server: c, lastUsedAt: new Date(1000) },
+    ])).toBe(b);
+  });
+});
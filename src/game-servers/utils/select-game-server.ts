@@ -0,0 +1,52 @@
+import { GameServer } from '../models';
+
+export interface GameServerPool {
+  regions: string[]; // empty means any region
+  tags: string[];
+}
+
+export interface GameServerCandidate {
+  server: GameServer;
+  lastUsedAt?: Date;
+}
+
+// latencies this close to each other are considered equal, so that the load is spread across such servers
+const latencyTolerance = 20; // milliseconds
+
+export function isInPool(server: GameServer, pool: GameServerPool): boolean {
+  return (pool.regions.length === 0 || pool.regions.includes(server.region))
+    && pool.tags.every(tag => server.tags?.includes(tag));
+}
+
+/**
+ * A server is healthy unless its last health check failed; servers that have not been checked yet get a chance.
+ */
+export function isHealthy(server: GameServer): boolean {
+  return !server.health || (server.health.isOnline && server.health.rconReachable);
+}
+
+export function isAvailable(server: GameServer): boolean {
+  return (server.availability ?? 'enabled') === 'enabled';
+}
+
+function latencyBucket(server: GameServer): number {
+  const latency = server.health?.latency;
+  return latency === undefined ? Infinity : Math.floor(latency / latencyTolerance);
+}
+
+/**
+ * Picks the best server to launch a game on: the one with the highest priority, then the one with the lowest latency,
+ * then the one that has not been used for the longest time.
+ * @param candidates Servers that are free to use.
+ * @param pool Servers the game can be played on.
+ * @returns The selected server or null if none of the candidates fits.
+ */
+export function selectGameServer(candidates: GameServerCandidate[], pool?: GameServerPool): GameServer {
+  const eligible = candidates
+    .filter(({ server }) => isAvailable(server) && isHealthy(server) && (!pool || isInPool(server, pool)))
+    .sort((a, b) =>
+      (b.server.priority ?? 0) - (a.server.priority ?? 0)
+      || latencyBucket(a.server) - latencyBucket(b.server)
+      || (a.lastUsedAt?.getTime() ?? 0) - (b.lastUsedAt?.getTime() ?? 0));
+  return eligible[0]?.server ?? null;
+}
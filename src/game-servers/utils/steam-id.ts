@@ -0,0 +1,10 @@
+// the lowest SteamID64 of an individual account
+const steamId64Base = BigInt('76561197960265728');
+
+/**
+ * Converts the [U:1:12345] notation used in the logs to the SteamID64 players are stored with.
+ */
+export function toSteamId64(steamId3: string): string {
+  const accountId = steamId3.match(/^\[U:1:(\d+)\]$/)[1];
+  return (steamId64Base + BigInt(accountId)).toString();
+}
@@ -1,17 +1,18 @@
-import { Rcon } from 'rcon-client';
+import { GameServerVerification, RconSession } from '../models';
+import { buildVerificationReport } from './build-verification-report';
 
 /**
- * Verify the game server is valid for playing pickup games (has tftrue, etc.).
+ * Verify the game server is valid for playing pickup games (has sourcemod, tftrue, etc.).
+ * @throws Error if the server cannot be reached via RCON.
+ * @returns What the server has and what it lacks.
  */
-export async function verifyServer(options: { address: string, port: number, rconPassword: string }) {
-  const rcon = await Rcon.connect({
-    host: options.address,
-    port: options.port,
-    password: options.rconPassword,
+export async function verifyServer(rcon: RconSession): Promise<GameServerVerification> {
+  // none of the commands changes anything on the server
+  const options = { idempotent: true };
+  return buildVerificationReport({
+    smVersion: await rcon.send('sm version', options),
+    smPluginsList: await rcon.send('sm plugins list', options),
+    tftrueVersion: await rcon.send('tftrue_version', options),
+    gamePlayerAdd: await rcon.send('sm_game_player_add', options),
   });
-
-  // todo check the server is properly configured (tftrue, sourcemod, etc.)
-
-  await rcon.end();
-  return true;
 }
@@ -1,13 +1,26 @@
-import { inject } from 'inversify';
-import { BaseHttpController, controller, httpGet, httpPut, queryParam, requestParam } from 'inversify-express-utils';
+import { DocumentType } from '@typegoose/typegoose';
+import { Request } from 'express';
+import { inject, postConstruct } from 'inversify';
+import { BaseHttpController, controller, httpGet, httpPost, httpPut, queryParam, request, requestBody,
+  requestParam } from 'inversify-express-utils';
 import { Types } from 'mongoose';
 import { ensureAuthenticated, ensureRole } from '../../auth';
+import { WsProviderService } from '../../core';
+import { RconService } from '../../game-servers/services/rcon-service';
+import { Player } from '../../players/models/player';
 import { gameModel } from '../models/game';
 import { GameService } from '../services/game-service';
+import { GameStatsService } from '../services/game-stats-service';
+import { SubstituteRequestService } from '../services/substitute-request-service';
 
 @controller('/games')
 export class GameController extends BaseHttpController {
 
+  @inject(GameStatsService) private gameStatsService: GameStatsService; // don't remove
+  @inject(WsProviderService) private wsProvider: WsProviderService;
+  @inject(SubstituteRequestService) private substituteRequestService: SubstituteRequestService;
+  @inject(RconService) private rconService: RconService;
+
   constructor(
     @inject(GameService) private gameService: GameService,
   ) {
@@ -90,8 +103,53 @@ export class GameController extends BaseHttpController {
     }
   }
 
+  @httpPost('/:id/replace_player', ensureAuthenticated)
+  public async replacePlayer(@requestParam('id') gameId: string, @queryParam('replacee') replaceeId: string,
+                             @request() req: Request) {
+    try {
+      const user = req.user as { id: string };
+      const game = await this.gameService.replacePlayer(gameId, replaceeId, user.id);
+      return this.json(game.toJSON());
+    } catch (error) {
+      return this.json({ message: error.message }, 400);
+    }
+  }
+
+  @httpGet('/:id/rcon_log', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async getRconLog(@requestParam('id') gameId: string) {
+    try {
+      const commands = await this.rconService.getCommandLog(gameId);
+      return this.json(commands.map(c => c.toJSON()));
+    } catch (error) {
+      return this.json({ message: error.message }, 500);
+    }
+  }
+
+  @httpGet('/:id/substitute_requests', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async getSubstituteRequests(@requestParam('id') gameId: string) {
+    try {
+      const requests = await this.substituteRequestService.getRequestsForGame(gameId);
+      return this.json(requests.map(r => r.toJSON()));
+    } catch (error) {
+      return this.json({ message: error.message }, 500);
+    }
+  }
+
+  @httpPost('/:id/substitute_requests', ensureAuthenticated)
+  public async requestSubstitute(@requestParam('id') gameId: string, @requestBody() body: { reason: string },
+                                 @request() req: Request) {
+    try {
+      const user = req.user as { id: string };
+      const substituteRequest = await this.substituteRequestService.requestSubstitute(gameId, user.id, body.reason);
+      return this.json(substituteRequest.toJSON(), 201);
+    } catch (error) {
+      return this.json({ message: error.message }, 400);
+    }
+  }
+
   @httpPut('/:id', ensureAuthenticated, ensureRole('admin', 'super-user'))
-  public async takeAdminAction(@requestParam('id') gameId: string, @queryParam() query: any) {
+  public async takeAdminAction(@requestParam('id') gameId: string, @queryParam() query: any,
+                               @request() req: Request) {
     if (query.hasOwnProperty('force_end')) {
       this.gameService.forceEnd(gameId);
     } else if (query.hasOwnProperty('reinitialize_server')) {
@@ -108,9 +166,51 @@ export class GameController extends BaseHttpController {
       } catch (error) {
         return this.json({ message: error.message }, 400);
       }
+    } else if (query.hasOwnProperty('substitute_request_approve')) {
+      try {
+        const user = req.user as { id: string };
+        await this.substituteRequestService.approveRequest(gameId, query.substitute_request_approve, user.id);
+      } catch (error) {
+        return this.json({ message: error.message }, 400);
+      }
+    } else if (query.hasOwnProperty('substitute_request_deny')) {
+      try {
+        const user = req.user as { id: string };
+        await this.substituteRequestService.denyRequest(gameId, query.substitute_request_deny, user.id);
+      } catch (error) {
+        return this.json({ message: error.message }, 400);
+      }
     }
 
     return this.json({ });
   }
 
+  @postConstruct()
+  public setupWs() {
+    this.wsProvider.ws.on('connection', socket => {
+      if (socket.request.user.logged_in) {
+        const player = socket.request.user as DocumentType<Player>;
+
+        socket.on('replace player', async (gameId: string, replaceeId: string, done) => {
+          try {
+            const game = await this.gameService.replacePlayer(gameId, replaceeId, player.id);
+            done({ value: game.toJSON() });
+          } catch (error) {
+            done({ error: error.message });
+          }
+        });
+
+        socket.on('request substitute', async (gameId: string, reason: string, done) => {
+          try {
+            const substituteRequest =
+              await this.substituteRequestService.requestSubstitute(gameId, player.id, reason);
+            done({ value: substituteRequest.toJSON() });
+          } catch (error) {
+            done({ error: error.message });
+          }
+        });
+      }
+    });
+  }
+
 }
@@ -1,4 +1,5 @@
 import { prop } from '@typegoose/typegoose';
+import { PlayerConnectionStatus } from './player-connection-status';
 
 export class GamePlayer {
   @prop({ required: true })
@@ -12,4 +13,15 @@ export class GamePlayer {
 
   @prop({ default: 'active' })
   public status: 'active' | 'waiting for substitute' | 'replaced';
+
+  @prop({ default: 'offline' })
+  public connectionStatus?: PlayerConnectionStatus;
+
+  /* When the player first connected to the game server */
+  @prop()
+  public joinedAt?: Date;
+
+  /* The Discord message announcing that a substitute is needed for this player */
+  @prop()
+  public substituteMessageId?: string;
 }
@@ -3,6 +3,8 @@ import { Player } from '../../players/models/player';
 import { renameId } from '../../utils';
 import { GamePlayer } from './game-player';
 import { GameState } from './game-state';
+import { MapVoteResult } from './map-vote-result';
+import { PlayerGameStats } from './player-game-stats';
 
 function removeAssignedSkills(doc: DocumentType<Game>, ret: any) {
   ret = renameId(doc, ret);
@@ -29,6 +31,9 @@ export class Game {
   @prop({ unique: true })
   public number?: number;
 
+  @prop()
+  public queueId?: string;
+
   @mapProp({ of: String })
   public teams?: Map<string, string>;
 
@@ -41,21 +46,57 @@ export class Game {
   @mapProp({ of: Number })
   public assignedSkills?: Map<string, number>;
 
+  /* How unbalanced the teams are, as measured by the balancing strategy */
+  @prop()
+  public skillDifference?: number;
+
+  /* The strategy that was used to balance the teams */
+  @prop()
+  public balancingStrategy?: string;
+
   @prop()
   public map?: string;
 
+  /* What maps were offered in the map vote and how many votes each of them got */
+  @arrayProp({ items: MapVoteResult, _id: false })
+  public mapVoteResults?: MapVoteResult[];
+
   @prop()
   public state?: GameState;
 
   @prop()
   public connectString?: string;
 
+  /* Players that have not joined the server by then will be substituted */
+  @prop()
+  public joinDeadline?: Date;
+
   @prop()
   public mumbleUrl?: string;
 
   @prop()
   public logsUrl?: string;
 
+  /* Score of each team, by team id; updated live as the match goes */
+  @mapProp({ of: Number })
+  public score?: Map<string, number>;
+
+  /* Teams whose final score has been logged */
+  @arrayProp({ items: String })
+  public finalScoreTeams?: string[];
+
+  /* Id of the team that won the match; not set until the match ends and for draws */
+  @prop()
+  public winner?: string;
+
+  /* Whether player skills have been updated with the result of this game */
+  @prop()
+  public rated?: boolean;
+
+  /* Stats of each player, extracted from the server logs */
+  @arrayProp({ items: PlayerGameStats, _id: false })
+  public playerStats?: PlayerGameStats[];
+
   @prop()
   public error?: string;
 
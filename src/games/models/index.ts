@@ -1,2 +1,7 @@
 export { gameModel, Game } from './game';
 export { GamePlayer } from './game-player';
+export { PlayerConnectionStatus } from './player-connection-status';
+export { MapVoteResult } from './map-vote-result';
+export { PlayerGameStats } from './player-game-stats';
+export { substituteRequestModel, SubstituteRequest, SubstituteRequestStatus } from './substitute-request';
+export { launchJobModel, LaunchJob, LaunchJobState } from './launch-job';
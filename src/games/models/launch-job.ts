@@ -0,0 +1,43 @@
+import { getModelForClass, prop, Ref } from '@typegoose/typegoose';
+import { renameId } from '../../utils';
+import { Game } from './game';
+
+export type LaunchJobState = 'pending' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * Keeps track of launching a single game, so that launching can be resumed after a restart.
+ */
+export class LaunchJob {
+
+  @prop({ ref: 'Game', required: true, unique: true })
+  public game!: Ref<Game>;
+
+  @prop({ default: 'pending', index: true })
+  public state?: LaunchJobState;
+
+  @prop({ default: 0 })
+  public attempts?: number;
+
+  @prop()
+  public lastError?: string;
+
+  @prop({ default: () => new Date() })
+  public createdAt?: Date;
+
+  @prop({ default: () => new Date() })
+  public nextAttemptAt?: Date;
+
+  @prop()
+  public finishedAt?: Date;
+
+}
+
+export const launchJobModel = getModelForClass(LaunchJob, {
+  schemaOptions: {
+    toJSON: {
+      versionKey: false,
+      virtuals: true,
+      transform: renameId,
+    },
+  },
+});
@@ -0,0 +1,9 @@
+import { prop } from '@typegoose/typegoose';
+
+export class MapVoteResult {
+  @prop({ required: true })
+  public map!: string;
+
+  @prop({ required: true })
+  public voteCount!: number;
+}
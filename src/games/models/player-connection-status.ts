@@ -0,0 +1 @@
+export type PlayerConnectionStatus = 'offline' | 'joining' | 'connected';
@@ -0,0 +1,27 @@
+import { prop } from '@typegoose/typegoose';
+
+export class PlayerGameStats {
+  @prop({ required: true })
+  public playerId!: string;
+
+  @prop({ default: 0 })
+  public kills: number;
+
+  @prop({ default: 0 })
+  public deaths: number;
+
+  @prop({ default: 0 })
+  public assists: number;
+
+  @prop({ default: 0 })
+  public damage: number;
+
+  @prop({ default: 0 })
+  public heals: number;
+
+  @prop({ default: 0 })
+  public ubers: number;
+
+  @prop({ default: 0 })
+  public drops: number;
+}
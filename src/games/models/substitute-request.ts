@@ -0,0 +1,46 @@
+import { getModelForClass, prop, Ref } from '@typegoose/typegoose';
+import { Player } from '../../players/models/player';
+import { renameId } from '../../utils';
+import { Game } from './game';
+
+// a request gets closed when it is not needed anymore, i.e. the game is over or the player got substituted anyway
+export type SubstituteRequestStatus = 'pending' | 'approved' | 'denied' | 'closed';
+
+/**
+ * A player asking to be replaced in the game they play.
+ * Requests are never removed so they serve as an audit trail.
+ */
+export class SubstituteRequest {
+
+  @prop({ ref: 'Game', required: true, index: true })
+  public game!: Ref<Game>;
+
+  @prop({ ref: 'Player', required: true, index: true })
+  public player!: Ref<Player>;
+
+  @prop({ required: true })
+  public reason!: string;
+
+  @prop({ default: 'pending' })
+  public status?: SubstituteRequestStatus;
+
+  @prop({ default: () => new Date() })
+  public requestedAt?: Date;
+
+  @prop({ ref: 'Player' })
+  public resolvedBy?: Ref<Player>;
+
+  @prop()
+  public resolvedAt?: Date;
+
+}
+
+export const substituteRequestModel = getModelForClass(SubstituteRequest, {
+  schemaOptions: {
+    toJSON: {
+      versionKey: false,
+      virtuals: true,
+      transform: renameId,
+    },
+  },
+});
@@ -0,0 +1,191 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { EventEmitter } from 'events';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { connect } from 'mongoose';
+import { Config } from '../../config';
+import { WsProviderService } from '../../core';
+import { DiscordBotService } from '../../discord/services/discord-bot-service';
+import { GameEventListener, GameServerService, RconService } from '../../game-servers/services';
+import { Player, playerModel } from '../../players/models/player';
+import { PlayerBansService } from '../../players/services/player-bans-service';
+import { PlayerService } from '../../players/services/player-service';
+import { SkillRatingService } from '../../players/services/skill-rating-service';
+import { QueueConfigService } from '../../queue/services/queue-config-service';
+import { Game, gameModel } from '../models';
+import { GameService } from './game-service';
+
+class GameServerServiceStub {
+  public game: DocumentType<Game>;
+  public getAssignedGame(server: any) { return Promise.resolve(this.game); }
+  public getAssignedServer(game: any) { return Promise.resolve(null); }
+  public getRunningAssignments() { return Promise.resolve([]); }
+}
+
+class DiscordBotServiceStub {
+  public closeSubstituteRequest(messageId: string, replacementId?: string) { return Promise.resolve(); }
+  public notifySubstituteRequest(info: any) { return Promise.resolve('FAKE_MESSAGE_ID'); }
+  public notifyNoShow(playerId: string, gameNumber: number, gameId: string, noShowCount: number) {
+    return Promise.resolve();
+  }
+}
+
+class PlayerBansServiceStub {
+  public getActiveBansForPlayer(playerId: string) { return Promise.resolve([]); }
+}
+
+// let the timers and the event handlers of the service run
+const settle = () => new Promise(resolve => setTimeout(resolve, 200));
+
+describe('GameService', () => {
+  const gameServerService = new GameServerServiceStub();
+  const discordBotService = new DiscordBotServiceStub();
+  const wsProvider = { ws: { emit: (...args: any[]) => null } };
+  let gameEventListener: EventEmitter;
+  let mongod: MongoMemoryServer;
+  let service: GameService;
+  let player: DocumentType<Player>;
+  let game: DocumentType<Game>;
+
+  beforeAll(async () => {
+    mongod = new MongoMemoryServer();
+    const uri = await mongod.getConnectionString();
+    await connect(uri, { useNewUrlParser: true });
+  });
+
+  afterAll(async () => await mongod.stop());
+
+  beforeEach(async () => {
+    gameEventListener = new EventEmitter();
+    service = new GameService(
+      { } as Config,
+      gameServerService as unknown as GameServerService,
+      { } as QueueConfigService,
+      wsProvider as unknown as WsProviderService,
+      gameEventListener as unknown as GameEventListener,
+      { } as SkillRatingService,
+      new PlayerService(),
+      discordBotService as unknown as DiscordBotService,
+      new PlayerBansServiceStub() as unknown as PlayerBansService,
+      { } as RconService,
+    );
+
+    player = await playerModel.create({ name: 'FAKE_NAME', steamId: 'FAKE_STEAM_ID' });
+    game = await gameModel.create({
+      number: 1,
+      state: 'started',
+      teams: { 0: 'RED', 1: 'BLU' },
+      slots: [ { playerId: player.id, teamId: '0', gameClass: 'soldier' } ],
+      joinDeadline: new Date(Date.now() - 1000),
+    });
+    gameServerService.game = game;
+  });
+
+  afterEach(async () => {
+    await gameModel.deleteMany({});
+    await playerModel.deleteMany({});
+  });
+
+  describe('when the join deadline expires', () => {
+    it('should substitute players that have not joined', async () => {
+      await service.initialize();
+      await settle();
+
+      const slot = (await gameModel.findById(game.id)).slots[0];
+      expect(slot.status).toEqual('waiting for substitute');
+      expect(slot.substituteMessageId).toEqual('FAKE_MESSAGE_ID');
+    });
+
+    it('should record the no-show', async () => {
+      spyOn(discordBotService, 'notifyNoShow').and.callThrough();
+      await service.initialize();
+      await settle();
+
+      const noShows = (await playerModel.findById(player.id)).noShows;
+      expect(noShows.length).toEqual(1);
+      expect(noShows[0].gameId).toEqual(game.id);
+      expect(discordBotService.notifyNoShow).toHaveBeenCalledWith(player.id, 1, game.id, 1);
+    });
+
+    it('should leave players that have joined in time alone', async () => {
+      gameEventListener.emit('player connection', { server: { }, steamId: 'FAKE_STEAM_ID', status: 'joining' });
+      gameEventListener.emit('player connection', { server: { }, steamId: 'FAKE_STEAM_ID', status: 'offline' });
+      await settle();
+      await service.initialize();
+      await settle();
+
+      const slot = (await gameModel.findById(game.id)).slots[0];
+      expect(slot.joinedAt).toBeTruthy();
+      expect(slot.status).toEqual('active');
+      expect((await playerModel.findById(player.id)).noShows.length).toEqual(0);
+    });
+
+    it('should ignore games that are over', async () => {
+      await gameModel.updateOne({ _id: game.id }, { state: 'ended' });
+      await service.initialize();
+      await settle();
+
+      const slot = (await gameModel.findById(game.id)).slots[0];
+      expect(slot.status).toEqual('active');
+    });
+  });
+
+  describe('#replacePlayer()', () => {
+    let replacement: DocumentType<Player>;
+
+    beforeEach(async () => {
+      replacement = await playerModel.create({ name: 'FAKE_REPLACEMENT_NAME', steamId: 'FAKE_REPLACEMENT_STEAM_ID' });
+      await gameModel.updateOne({ _id: game.id }, {
+        $set: {
+          'slots.0.status': 'waiting for substitute',
+          'slots.0.substituteMessageId': 'FAKE_MESSAGE_ID',
+          'players': [ player.id ],
+        },
+        $unset: { joinDeadline: 1 },
+      });
+    });
+
+    it('should put the replacement in the slot', async () => {
+      const updatedGame = await service.replacePlayer(game.id, player.id, replacement.id);
+      expect(updatedGame.slots.find(s => s.playerId === player.id).status).toEqual('replaced');
+      expect(updatedGame.slots.find(s => s.playerId === replacement.id).status).toEqual('active');
+      expect(updatedGame.players.map(p => p.toString())).toEqual([ replacement.id ]);
+    });
+
+    it('should let the queues know the replacement joined the game', async () => {
+      const spy = jasmine.createSpy('player_joined_game');
+      service.on('player_joined_game', spy);
+      await service.replacePlayer(game.id, player.id, replacement.id);
+      expect(spy).toHaveBeenCalledWith(replacement.id, game.id);
+    });
+
+    it('should update the substitute request message', async () => {
+      spyOn(discordBotService, 'closeSubstituteRequest').and.callThrough();
+      await service.replacePlayer(game.id, player.id, replacement.id);
+      expect(discordBotService.closeSubstituteRequest).toHaveBeenCalledWith('FAKE_MESSAGE_ID', replacement.id);
+      expect((await gameModel.findById(game.id)).slots[0].substituteMessageId).toBeUndefined();
+    });
+
+    it('should take the player back', async () => {
+      const spy = jasmine.createSpy('player_joined_game');
+      service.on('player_joined_game', spy);
+      const updatedGame = await service.replacePlayer(game.id, player.id, player.id);
+      expect(updatedGame.slots[0].status).toEqual('active');
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should let only one player take the slot', async () => {
+      const other = await playerModel.create({ name: 'FAKE_OTHER_NAME', steamId: 'FAKE_OTHER_STEAM_ID' });
+      const results = await Promise.all([
+        service.replacePlayer(game.id, player.id, replacement.id).then(() => true, () => false),
+        service.replacePlayer(game.id, player.id, other.id).then(() => true, () => false),
+      ]);
+      expect(results.filter(r => r).length).toEqual(1);
+    });
+
+    it('should fail if no substitute was requested', async () => {
+      await gameModel.updateOne({ _id: game.id }, { $set: { 'slots.0.status': 'active' } });
+      await expectAsync(service.replacePlayer(game.id, player.id, replacement.id))
+        .toBeRejectedWithError('no substitute was requested for this player');
+    });
+  });
+});
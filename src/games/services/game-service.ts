@@ -1,26 +1,42 @@
 import { DocumentType } from '@typegoose/typegoose';
-import { inject } from 'inversify';
+import { EventEmitter } from 'events';
+import { inject, postConstruct } from 'inversify';
 import { provide } from 'inversify-binding-decorators';
 import { Config } from '../../config';
 import { WsProviderService } from '../../core';
+import { DiscordBotService, SubstituteRequestInfo } from '../../discord/services/discord-bot-service';
 import { GameServer } from '../../game-servers/models/game-server';
-import { GameEventListener, GameServerService } from '../../game-servers/services';
+import { GameEventListener, GameServerService, RconService } from '../../game-servers/services';
+import { GameServerPool } from '../../game-servers/utils/select-game-server';
 import logger from '../../logger';
-import { playerModel } from '../../players/models/player';
+import { Player, playerModel } from '../../players/models/player';
 import { playerSkillModel } from '../../players/models/player-skill';
+import { PlayerBansService } from '../../players/services/player-bans-service';
+import { PlayerService } from '../../players/services/player-service';
+import { SkillRatingService } from '../../players/services/skill-rating-service';
+import { MapPoolItem } from '../../queue/models/map-pool-item';
 import { QueueConfig } from '../../queue/models/queue-config';
 import { QueueSlot } from '../../queue/models/queue-slot';
 import { QueueConfigService } from '../../queue/services/queue-config-service';
-import { Game, gameModel } from '../models';
+import { Game, gameModel, GamePlayer, LaunchJob, launchJobModel, MapVoteResult, PlayerConnectionStatus,
+  substituteRequestModel } from '../models';
+import { createBalancingStrategy } from '../utils/balancing-strategies';
 import { cleanupServer } from '../utils/cleanup-server';
 import { configureServer } from '../utils/configure-server';
 import { extractFriends } from '../utils/extract-friends';
+import { launchRetryDelay } from '../utils/launch-retry-delay';
 import { pickTeams, PlayerSlot } from '../utils/pick-teams';
+import { replacePlayerOnServer } from '../utils/replace-player-on-server';
+
+// a game that cannot be launched for this long gets interrupted
+const maxLaunchWait = 10 * 60 * 1000; // 10 minutes
 
 @provide(GameService)
-export class GameService {
+export class GameService extends EventEmitter {
 
   private ws = this.wsProvider.ws;
+  private joinDeadlineTimers = new Map<string, NodeJS.Timer>();
+  private launchTimers = new Map<string, NodeJS.Timer>();
 
   constructor(
     @inject('config') private config: Config,
@@ -28,12 +44,61 @@ export class GameService {
     @inject(QueueConfigService) private queueConfigService: QueueConfigService,
     @inject(WsProviderService) private wsProvider: WsProviderService,
     @inject(GameEventListener) private gameEventListener: GameEventListener,
+    @inject(SkillRatingService) private skillRatingService: SkillRatingService,
+    @inject(PlayerService) private playerService: PlayerService,
+    @inject(DiscordBotService) private discordBotService: DiscordBotService,
+    @inject(PlayerBansService) private playerBansService: PlayerBansService,
+    @inject(RconService) private rconService: RconService,
   ) {
+    super();
     this.gameEventListener.on('match started', async ({ server }) => this.onMatchStarted(server));
     this.gameEventListener.on('match ended', async ({ server }) => this.onMatchEnded(server));
+    this.gameEventListener.on('team score', async ({ server, teamName, score, final }) =>
+      this.onTeamScore(server, teamName, score, final));
+    this.gameEventListener.on('player connection', async ({ server, steamId, status }) =>
+      this.onPlayerConnection(server, steamId, status));
     this.gameEventListener.on('logs uploaded', async ({ server, logsUrl }) => this.onLogsUploaded(server, logsUrl));
   }
 
+  /**
+   * Resumes launching the games that were being launched when the server went down, restores their join deadlines
+   * and releases the servers of the games that ended in the meantime.
+   */
+  @postConstruct()
+  public async initialize() {
+    try {
+      const jobs = await launchJobModel.find({ state: 'pending' });
+      jobs.forEach(job => this.scheduleLaunchJob(job));
+
+      // games that were created before launch jobs were introduced
+      const launchingGames = await gameModel.find({ state: 'launching', connectString: null });
+      for (const game of launchingGames) {
+        if (!jobs.some(job => job.game.toString() === game.id)) {
+          this.launchInBackground(game);
+        }
+      }
+
+      if (jobs.length > 0) {
+        logger.info(`resuming launch of ${jobs.length} game(s)`);
+      }
+    } catch (error) {
+      logger.error(`could not resume launching games (${error.message})`);
+    }
+
+    try {
+      const games = await gameModel.find({ state: /launching|started/, joinDeadline: { $ne: null } });
+      games.forEach(game => this.scheduleJoinDeadline(game.id, game.joinDeadline));
+    } catch (error) {
+      logger.error(`could not restore join deadlines (${error.message})`);
+    }
+
+    try {
+      await this.reconcileServerAssignments();
+    } catch (error) {
+      logger.error(`could not release leftover servers (${error.message})`);
+    }
+  }
+
   public async getAllGames(): Promise<Array<DocumentType<Game>>> {
     return await gameModel.find().sort({ launchedAt: -1 });
   }
@@ -42,7 +107,29 @@ export class GameService {
     return await gameModel.findById(gameId);
   }
 
-  public async create(queueSlots: QueueSlot[], queueConfig: QueueConfig, map: string): Promise<DocumentType<Game>> {
+  /**
+   * Maps of the most recently launched games of the given queue, the latest first.
+   */
+  public async getRecentMaps(queueId: string, count: number): Promise<string[]> {
+    if (count <= 0) {
+      return [];
+    }
+
+    const games = await gameModel.find({ queueId }, { map: 1 }).sort({ launchedAt: -1 }).limit(count).lean();
+    return games.map(game => game.map);
+  }
+
+  /**
+   * When was the given map last played in the given queue.
+   * @returns undefined if the map has not been played there yet.
+   */
+  public async lastPlayedAt(queueId: string, map: string): Promise<Date> {
+    const game = await gameModel.findOne({ queueId, map }, { launchedAt: 1 }).sort({ launchedAt: -1 }).lean();
+    return game?.launchedAt;
+  }
+
+  public async create(queueId: string, queueSlots: QueueSlot[], queueConfig: QueueConfig,
+                      map: string, mapVoteResults: MapVoteResult[] = []): Promise<DocumentType<Game>> {
     queueSlots.forEach(slot => {
       if (!slot.playerId) {
         throw new Error('cannot create the game with queue not being full');
@@ -55,11 +142,16 @@ export class GameService {
 
     const players: PlayerSlot[] = await Promise.all(queueSlots.map(slot => this.queueSlotToPlayerSlot(slot)));
     const assignedSkills = players.reduce((prev, curr) => { prev[curr.playerId] = curr.skill; return prev; }, { });
-    const friends = extractFriends(queueSlots);
-    const slots = pickTeams(players, queueConfig.classes.map(cls => cls.name), { friends });
+    const friends = extractFriends(queueSlots, queueConfig.friendMarkingClasses);
+    const strategy = createBalancingStrategy(queueConfig.balancingStrategy, queueConfig.classes);
+    const { slots, skillDifference } =
+      pickTeams(players, queueConfig.classes.map(cls => cls.name),
+        { friends, maxFriendsPerTeam: queueConfig.maxFriendsPerTeam }, strategy);
 
     const game = await gameModel.create({
+      queueId,
       map,
+      mapVoteResults,
       state: 'launching',
       teams: {
         0: 'RED',
@@ -68,35 +160,26 @@ export class GameService {
       slots,
       players: queueSlots.map(s => s.playerId),
       assignedSkills,
+      skillDifference,
+      balancingStrategy: queueConfig.balancingStrategy,
     });
     this.ws.emit('game created', game);
-    this.launch(game);
+    this.launchInBackground(game);
     return game;
   }
 
+  /**
+   * Starts launching the game. Failed attempts are retried with a growing delay until either the game is launched
+   * or the maximum wait time passes, in which case the game is interrupted.
+   */
   public async launch(game: DocumentType<Game>) {
     if (game.state === 'interrupted' || game.state === 'ended') {
       return;
     }
 
-    const server = await this.gameServerService.getFreeGameServer();
-    if (server) {
-      logger.info(`game ${game.id} will be played on ${server.name}`);
-      try {
-        await this.gameServerService.assignGame(game, server);
-        await this.resolveMumbleUrl(game, server);
-        const { connectString } =
-          await configureServer(server, game, this.queueConfigService.queueConfig.execConfigs);
-        this.updateConnectString(game, connectString);
-      } catch (error) {
-        console.log(error.message);
-        setTimeout(() => this.launch(game), 10 * 1000);
-      }
-    } else {
-      // fixme
-      // try again in 10 seconds
-      console.info(`no available servers to launch game ${game.id}; trying again in 10 seconds...`);
-      setTimeout(() => this.launch(game), 10 * 1000);
+    const job = await launchJobModel.findOne({ game: game.id }) ?? await launchJobModel.create({ game: game.id });
+    if (job.state === 'pending') {
+      await this.runLaunchJob(job.id);
     }
   }
 
@@ -105,10 +188,13 @@ export class GameService {
     game.state = 'interrupted';
     game.error = 'ended by admin';
     game.save();
+    await this.cancelLaunchJob(game.id);
+    await this.closeSubstituteRequests(game.id, this.playersWaitingForSubstitute(game));
+    await this.closePendingSubstituteRequests(game.id);
 
     const server = await this.gameServerService.getAssignedServer(game);
     if (server) {
-      await cleanupServer(server);
+      await cleanupServer(this.rconService.session(server, game.id), server);
       await this.gameServerService.releaseServer(server);
     }
 
@@ -128,9 +214,10 @@ export class GameService {
     this.ws.emit('game updated', game.toJSON());
 
     const server = await this.gameServerService.getAssignedServer(game);
-    await cleanupServer(server);
+    const rcon = this.rconService.session(server, game.id);
+    await cleanupServer(rcon, server);
     const { connectString } =
-      await configureServer(server, game, this.queueConfigService.queueConfig.execConfigs);
+      await configureServer(rcon, server, game, this.getMapPoolItem(game));
     this.updateConnectString(game, connectString);
   }
 
@@ -153,6 +240,8 @@ export class GameService {
     game.markModified('slots');
     await game.save();
     this.ws.emit('game updated', game.toJSON());
+    await this.closePendingSubstituteRequests(game.id, [ playerId ]);
+    await this.notifySubstituteRequest(game, slot);
   }
 
   public async cancelSubstitutionRequest(gameId: string, playerId: string) {
@@ -174,6 +263,97 @@ export class GameService {
     game.markModified('slots');
     await game.save();
     this.ws.emit('game updated', game.toJSON());
+    await this.closeSubstituteRequests(game.id, [ playerId ]);
+  }
+
+  /**
+   * Lets the given player take the slot of a player that is waiting for a substitute.
+   * The replaced player is kept in the slot list, but they are not a member of the game anymore.
+   * @param gameId The game to join.
+   * @param replaceeId The player to be replaced.
+   * @param replacementId The player that takes the slot.
+   */
+  public async replacePlayer(gameId: string, replaceeId: string,
+                             replacementId: string): Promise<DocumentType<Game>> {
+    const game = await this.getGame(gameId);
+    if (!game) {
+      throw new Error('no such game');
+    }
+
+    if (!/launching|started/.test(game.state)) {
+      throw new Error('the game has already ended');
+    }
+
+    const slot = game.slots.find(s => s.playerId === replaceeId && s.status !== 'replaced');
+    if (!slot) {
+      throw new Error('this player is not a member of this game');
+    }
+
+    if (slot.status !== 'waiting for substitute') {
+      throw new Error('no substitute was requested for this player');
+    }
+
+    // the slot can be taken by one player only, even if more of them try at the same time
+    const waitingSlot = {
+      _id: game._id,
+      state: /launching|started/,
+      slots: { $elemMatch: { playerId: replaceeId, status: 'waiting for substitute' } },
+    };
+
+    if (replaceeId === replacementId) {
+      // the player is back
+      const gameBack = await gameModel.findOneAndUpdate(waitingSlot, { $set: { 'slots.$.status': 'active' } },
+        { new: true });
+      if (!gameBack) {
+        throw new Error('no substitute was requested for this player');
+      }
+
+      this.ws.emit('game updated', gameBack.toJSON());
+      await this.closeSubstituteRequests(game.id, [ replaceeId ]);
+      return gameBack;
+    }
+
+    const bans = await this.playerBansService.getActiveBansForPlayer(replacementId);
+    if (bans.length > 0) {
+      throw new Error('player is banned');
+    }
+
+    if (!!(await this.activeGameForPlayer(replacementId))) {
+      throw new Error('player is involved in a currently running game');
+    }
+
+    const claimed = await gameModel.findOneAndUpdate(waitingSlot,
+      { $set: { 'slots.$.status': 'replaced' }, $pull: { players: replaceeId } });
+    if (!claimed) {
+      throw new Error('no substitute was requested for this player');
+    }
+
+    const newSlot = {
+      playerId: replacementId,
+      teamId: slot.teamId,
+      gameClass: slot.gameClass,
+      status: 'active' as const,
+    };
+    const updatedGame = await gameModel.findByIdAndUpdate(game._id,
+      { $push: { slots: newSlot }, $addToSet: { players: replacementId } }, { new: true });
+    logger.info(`player ${replacementId} replaced player ${replaceeId} in game #${game.number}`);
+    this.ws.emit('game updated', updatedGame.toJSON());
+    this.emit('player_joined_game', replacementId, game.id);
+    await this.closeSubstituteRequests(game.id, [ replaceeId ], replacementId);
+
+    const server = await this.gameServerService.getAssignedServer(game);
+    if (server) {
+      try {
+        const replacee = await playerModel.findById(replaceeId).lean() as Player;
+        const replacement = await playerModel.findById(replacementId).lean() as Player;
+        await replacePlayerOnServer(this.rconService.session(server, game.id), server, replacee, replacement,
+          newSlot);
+      } catch (error) {
+        logger.error(error.message);
+      }
+    }
+
+    return updatedGame;
   }
 
   public async activeGameForPlayer(playerId: string): Promise<DocumentType<Game>> {
@@ -188,6 +368,211 @@ export class GameService {
     this.ws.emit('game updated', game.toJSON());
   }
 
+  private launchInBackground(game: DocumentType<Game>) {
+    this.launch(game).catch(error => logger.error(`could not launch game #${game.number} (${error.message})`));
+  }
+
+  private async runLaunchJob(jobId: string) {
+    this.launchTimers.delete(jobId);
+    const job = await launchJobModel.findById(jobId);
+    if (!job || job.state !== 'pending') {
+      return;
+    }
+
+    const game = await this.getGame(job.game.toString());
+    if (!game || game.state !== 'launching') {
+      job.state = 'cancelled';
+      job.finishedAt = new Date();
+      await job.save();
+      return;
+    }
+
+    job.attempts += 1;
+    try {
+      await this.launchOnFreeServer(game);
+      job.state = 'done';
+      job.lastError = undefined;
+      job.finishedAt = new Date();
+      await job.save();
+      return;
+    } catch (error) {
+      job.lastError = error.message;
+      logger.warn(`could not launch game #${game.number} (attempt ${job.attempts}: ${error.message})`);
+    }
+
+    const delay = launchRetryDelay(job.attempts);
+    if (Date.now() + delay - job.createdAt.getTime() > maxLaunchWait) {
+      job.state = 'failed';
+      job.finishedAt = new Date();
+      await job.save();
+
+      game.state = 'interrupted';
+      game.error = `could not launch the game (${job.lastError})`;
+      await game.save();
+      await this.closePendingSubstituteRequests(game.id);
+      logger.error(`game #${game.number} interrupted after ${job.attempts} launch attempts`);
+      this.ws.emit('game updated', game.toJSON());
+      return;
+    }
+
+    job.nextAttemptAt = new Date(Date.now() + delay);
+    await job.save();
+    this.scheduleLaunchJob(job);
+  }
+
+  private scheduleLaunchJob(job: DocumentType<LaunchJob>) {
+    const delay = Math.max(job.nextAttemptAt.getTime() - Date.now(), 0);
+    clearTimeout(this.launchTimers.get(job.id));
+    this.launchTimers.set(job.id, setTimeout(() => this.runLaunchJob(job.id)
+      .catch(error => logger.error(`launch job ${job.id} failed (${error.message})`)), delay));
+  }
+
+  private async cancelLaunchJob(gameId: string) {
+    const job = await launchJobModel.findOne({ game: gameId, state: 'pending' });
+    if (job) {
+      clearTimeout(this.launchTimers.get(job.id));
+      this.launchTimers.delete(job.id);
+      job.state = 'cancelled';
+      job.finishedAt = new Date();
+      await job.save();
+    }
+  }
+
+  private async launchOnFreeServer(game: DocumentType<Game>) {
+    const server = await this.gameServerService.assignFreeGameServer(game, this.gameServerPool(game));
+    if (!server) {
+      throw new Error('no free game server available');
+    }
+
+    logger.info(`game ${game.id} will be played on ${server.name}`);
+    try {
+      await this.resolveMumbleUrl(game, server);
+      const { connectString } =
+        await configureServer(this.rconService.session(server, game.id), server, game, this.getMapPoolItem(game));
+      this.setJoinDeadline(game);
+      await this.updateConnectString(game, connectString);
+    } catch (error) {
+      // let another attempt pick any server, this one included
+      await this.gameServerService.releaseServer(server);
+      throw error;
+    }
+  }
+
+  private gameServerPool(game: Game): GameServerPool {
+    if (!this.queueConfigService.queueIds.includes(game.queueId)) {
+      return undefined;
+    }
+
+    const { gameServerRegions, gameServerTags } = this.queueConfigService.getQueueConfig(game.queueId);
+    return { regions: gameServerRegions, tags: gameServerTags };
+  }
+
+  private async notifySubstituteRequest(game: DocumentType<Game>, slot: GamePlayer) {
+    const info: SubstituteRequestInfo = {
+      gameId: game.id,
+      gameNumber: game.number,
+      playerId: slot.playerId,
+      gameClass: slot.gameClass,
+      team: game.teams.get(slot.teamId),
+      map: game.map,
+    };
+    this.ws.emit('substitute requested', info);
+
+    try {
+      const messageId = await this.discordBotService.notifySubstituteRequest(info);
+      if (messageId) {
+        await gameModel.updateOne({
+          _id: game._id,
+          slots: { $elemMatch: { playerId: slot.playerId, status: { $ne: 'replaced' } } },
+        }, { $set: { 'slots.$.substituteMessageId': messageId } });
+      }
+    } catch (error) {
+      logger.error(`could not notify about the substitute request (${error.message})`);
+    }
+  }
+
+  /**
+   * Updates the Discord messages about the substitute requests of the given players.
+   * Each message is taken off its slot, so that it is updated only once.
+   */
+  private async closeSubstituteRequests(gameId: string, playerIds: string[], replacementId?: string) {
+    for (const playerId of playerIds) {
+      try {
+        const game = await gameModel.findOneAndUpdate({
+          _id: gameId,
+          slots: { $elemMatch: { playerId, substituteMessageId: { $ne: null } } },
+        }, { $unset: { 'slots.$.substituteMessageId': 1 } });
+        const messageId = game?.slots.find(s => s.playerId === playerId && s.substituteMessageId)?.substituteMessageId;
+        if (messageId) {
+          await this.discordBotService.closeSubstituteRequest(messageId, replacementId);
+        }
+      } catch (error) {
+        logger.error(`could not update the substitute request notification (${error.message})`);
+      }
+    }
+  }
+
+  /**
+   * Requests that have not been approved yet are not needed once the player is substituted or the game is over.
+   * @param playerIds Players whose requests are to be closed; all of them if omitted.
+   */
+  private async closePendingSubstituteRequests(gameId: string, playerIds?: string[]) {
+    const { nModified } = await substituteRequestModel.updateMany(
+      { game: gameId, status: 'pending', ...(playerIds ? { player: { $in: playerIds } } : { }) },
+      { status: 'closed', resolvedAt: new Date() });
+    if (nModified > 0) {
+      logger.info(`closed ${nModified} substitute request(s) in game ${gameId}`);
+    }
+  }
+
+  private playersWaitingForSubstitute(game: Game): string[] {
+    return game.slots.filter(s => s.status === 'waiting for substitute').map(s => s.playerId);
+  }
+
+  private setJoinDeadline(game: DocumentType<Game>) {
+    if (!this.queueConfigService.queueIds.includes(game.queueId)) {
+      return;
+    }
+
+    const { joinGameTimeout } = this.queueConfigService.getQueueConfig(game.queueId);
+    if (!joinGameTimeout) {
+      return;
+    }
+
+    game.joinDeadline = new Date(Date.now() + joinGameTimeout);
+    this.scheduleJoinDeadline(game.id, game.joinDeadline);
+  }
+
+  private scheduleJoinDeadline(gameId: string, joinDeadline: Date) {
+    const delay = Math.max(joinDeadline.getTime() - Date.now(), 0);
+    clearTimeout(this.joinDeadlineTimers.get(gameId));
+    this.joinDeadlineTimers.set(gameId, setTimeout(() => this.onJoinDeadline(gameId), delay));
+  }
+
+  /**
+   * Players that have not shown up in time get substituted.
+   */
+  private async onJoinDeadline(gameId: string) {
+    this.joinDeadlineTimers.delete(gameId);
+    const game = await this.getGame(gameId);
+    if (!game || !/launching|started/.test(game.state)) {
+      return;
+    }
+
+    // players that joined and dropped out since are not no-shows
+    const missing = game.slots.filter(s => s.status === 'active' && !s.joinedAt);
+    for (const slot of missing) {
+      try {
+        await this.substitutePlayer(gameId, slot.playerId);
+        const noShowCount = await this.playerService.recordNoShow(slot.playerId, gameId);
+        logger.info(`player ${slot.playerId} did not join game #${game.number} (${noShowCount} no-shows so far)`);
+        await this.discordBotService.notifyNoShow(slot.playerId, game.number, gameId, noShowCount);
+      } catch (error) {
+        logger.error(error.message);
+      }
+    }
+  }
+
   private async onMatchStarted(server: GameServer) {
     const game = await this.gameServerService.getAssignedGame(server);
     if (game && game.state === 'launching') {
@@ -202,17 +587,137 @@ export class GameService {
     if (game) {
       game.state = 'ended';
       game.connectString = null;
+      game.winner = this.determineWinner(game);
       await game.save();
       this.ws.emit('game updated', game.toJSON());
+      await this.closeSubstituteRequests(game.id, this.playersWaitingForSubstitute(game));
+      await this.closePendingSubstituteRequests(game.id);
+      await this.rateGameIfFinished(game.id);
 
-      setTimeout(async () => {
-        try {
-          await cleanupServer(server);
-          await this.gameServerService.releaseServer(server);
-        } catch (error) {
-          logger.error(error.message);
-        }
-      }, 2 * 60 * 1000 /* 2 minutes */);
+      setTimeout(() => this.cleanupAndReleaseServer(server, game.id), 2 * 60 * 1000 /* 2 minutes */);
+    }
+  }
+
+  private async cleanupAndReleaseServer(server: GameServer, gameId?: string) {
+    try {
+      await cleanupServer(this.rconService.session(server, gameId), server);
+      await this.gameServerService.releaseServer(server);
+    } catch (error) {
+      logger.error(error.message);
+    }
+  }
+
+  /**
+   * Releases servers that are still assigned to games that are over, i.e. when the server was restarted before
+   * the cleanup took place.
+   */
+  private async reconcileServerAssignments() {
+    const assignments = await this.gameServerService.getRunningAssignments();
+    for (const assignment of assignments) {
+      const game = assignment.game as DocumentType<Game>;
+      const server = assignment.server as DocumentType<GameServer>;
+      if (game && /launching|started/.test(game.state)) {
+        continue;
+      }
+
+      if (server) {
+        logger.info(`releasing server ${server.name} left over from game #${game?.number}`);
+        await this.cleanupAndReleaseServer(server, game?.id);
+      } else {
+        // the server has been removed
+        assignment.gameRunning = false;
+        await assignment.save();
+      }
+    }
+  }
+
+  private async onTeamScore(server: GameServer, teamName: string, score: number, final: boolean) {
+    const game = await this.gameServerService.getAssignedGame(server);
+    const teamId = game ? this.teamIdOf(game, teamName) : undefined;
+    if (teamId !== undefined) {
+      await this.updateScore(game.id, final
+        ? { $set: { [`score.${teamId}`]: score }, $addToSet: { finalScoreTeams: teamId } }
+        : { $set: { [`score.${teamId}`]: score } });
+    }
+  }
+
+  /**
+   * Scores of both teams are logged at the same time, so each of them is written on its own.
+   */
+  private async updateScore(gameId: string, update: object) {
+    const game = await gameModel.findByIdAndUpdate(gameId, update, { new: true });
+    this.ws.emit('game updated', game.toJSON());
+    await this.rateGameIfFinished(game.id);
+  }
+
+  private teamIdOf(game: Game, teamName: string): string {
+    return [ ...game.teams.entries() ].find(([ , name ]) => name === teamName)?.[0];
+  }
+
+  /**
+   * @returns Id of the team with the highest score, undefined in case of a draw.
+   */
+  private determineWinner(game: DocumentType<Game>): string {
+    if (!game.score) {
+      return undefined;
+    }
+
+    const scores = [ ...game.score.entries() ];
+    const best = Math.max(...scores.map(([ , score ]) => score));
+    const winners = scores.filter(([ , score ]) => score === best);
+    return winners.length === 1 ? winners[0][0] : undefined;
+  }
+
+  /**
+   * The final score is logged right after the match ends, so it is not known which of the two comes first.
+   * Once both are in, the winner is settled and the game gets rated.
+   */
+  private async rateGameIfFinished(gameId: string) {
+    const game = await this.getGame(gameId);
+    if (game.state !== 'ended' || game.finalScoreTeams?.length !== game.teams.size) {
+      return;
+    }
+
+    const winner = this.determineWinner(game);
+    if (winner !== game.winner) {
+      await gameModel.updateOne({ _id: game._id }, winner ? { winner } : { $unset: { winner: 1 } });
+      game.winner = winner;
+      this.ws.emit('game updated', game.toJSON());
+    }
+
+    try {
+      await this.skillRatingService.rateGame(game);
+    } catch (error) {
+      logger.error(`could not rate game #${game.number} (${error.message})`);
+    }
+  }
+
+  private async onPlayerConnection(server: GameServer, steamId: string, status: PlayerConnectionStatus) {
+    const game = await this.gameServerService.getAssignedGame(server);
+    if (!game || !/launching|started/.test(game.state)) {
+      return;
+    }
+
+    const player = await playerModel.findOne({ steamId });
+    if (!player) {
+      return;
+    }
+
+    // other players of the game can (dis)connect at the same time
+    if (status !== 'offline') {
+      await gameModel.updateOne({
+        _id: game._id,
+        slots: { $elemMatch: { playerId: player.id, status: { $ne: 'replaced' }, joinedAt: null } },
+      }, { $set: { 'slots.$.joinedAt': new Date() } });
+    }
+
+    const updatedGame = await gameModel.findOneAndUpdate({
+      _id: game._id,
+      slots: { $elemMatch: { playerId: player.id, status: { $ne: 'replaced' }, connectionStatus: { $ne: status } } },
+    }, { $set: { 'slots.$.connectionStatus': status } }, { new: true });
+
+    if (updatedGame) {
+      this.ws.emit('game updated', updatedGame.toJSON());
     }
   }
 
@@ -231,6 +736,21 @@ export class GameService {
     this.ws.emit('game updated', game.toJSON());
   }
 
+  private getMapPoolItem(game: Game): MapPoolItem {
+    // games of queues that are not run anymore or that were created before there were queues at all
+    // use the map pool of the default queue
+    const queueId = this.queueConfigService.queueIds.includes(game.queueId)
+      ? game.queueId : this.queueConfigService.queueIds[0];
+    const map = this.queueConfigService.getQueueConfig(queueId).maps.find(m => m.name === game.map);
+    if (map) {
+      return map;
+    } else {
+      // the map could have been removed from the pool in the meantime
+      logger.warn(`map ${game.map} is not in the ${queueId} map pool`);
+      return { name: game.map, execConfigs: [], weight: 1 };
+    }
+  }
+
   private async queueSlotToPlayerSlot(queueSlot: QueueSlot): Promise<PlayerSlot> {
     const { playerId, gameClass } = queueSlot;
     const player = await playerModel.findById(playerId);
@@ -0,0 +1,141 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { inject } from 'inversify';
+import { provide } from 'inversify-binding-decorators';
+import { GameServer } from '../../game-servers/models/game-server';
+import { GameEventListener, GameServerService } from '../../game-servers/services';
+import { PlayerStatsEntry } from '../../game-servers/utils/parse-player-stats';
+import logger from '../../logger';
+import { playerModel } from '../../players/models/player';
+import { gameModel, PlayerGameStats } from '../models';
+
+type StatsCounters = Omit<PlayerGameStats, 'playerId'>;
+
+/**
+ * Collects stats of each player from the server logs and stores them with the game.
+ * Only the lines logged between the match start and the match end count.
+ * Stats are kept in memory and written to the database every now and then, as there are a lot of them.
+ */
+@provide(GameStatsService)
+export class GameStatsService {
+
+  private readonly flushInterval = 30 * 1000;
+  // server id <-> game id
+  private activeGames = new Map<string, string>();
+  // game id <-> steam id <-> stats not saved yet
+  private pendingStats = new Map<string, Map<string, Partial<StatsCounters>>>();
+  // steam id <-> player id
+  private playerIds = new Map<string, string>();
+
+  constructor(
+    @inject(GameEventListener) private gameEventListener: GameEventListener,
+    @inject(GameServerService) private gameServerService: GameServerService,
+  ) {
+    this.gameEventListener.on('match started', async ({ server }) => this.onMatchStarted(server));
+    this.gameEventListener.on('match ended', async ({ server }) => this.onMatchEnded(server));
+    this.gameEventListener.on('player stats', ({ server, stats }) => this.onPlayerStats(server, stats));
+    setInterval(() => this.flushAll(), this.flushInterval);
+  }
+
+  private async onMatchStarted(server: DocumentType<GameServer>) {
+    const game = await this.gameServerService.getAssignedGame(server);
+    if (game) {
+      this.activeGames.set(server.id, game.id);
+    }
+  }
+
+  private async onMatchEnded(server: DocumentType<GameServer>) {
+    const gameId = this.activeGames.get(server.id);
+    if (gameId) {
+      this.activeGames.delete(server.id);
+      await this.flush(gameId);
+    }
+  }
+
+  private onPlayerStats(server: DocumentType<GameServer>, stats: PlayerStatsEntry[]) {
+    const gameId = this.activeGames.get(server.id);
+    if (!gameId) {
+      return;
+    }
+
+    if (!this.pendingStats.has(gameId)) {
+      this.pendingStats.set(gameId, new Map());
+    }
+
+    const pending = this.pendingStats.get(gameId);
+    stats.forEach(({ steamId, stat, value }) => {
+      const playerStats = pending.get(steamId) ?? { };
+      playerStats[stat] = (playerStats[stat] ?? 0) + value;
+      pending.set(steamId, playerStats);
+    });
+  }
+
+  private async flushAll() {
+    for (const gameId of [ ...this.pendingStats.keys() ]) {
+      await this.flush(gameId);
+    }
+  }
+
+  /**
+   * Each player's stats are incremented in place, so that flushes that overlap do not overwrite one another.
+   * Stats that could not be saved go back to the buffer and are retried with the next flush.
+   */
+  private async flush(gameId: string) {
+    const pending = this.pendingStats.get(gameId);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingStats.delete(gameId);
+
+    for (const [ steamId, stats ] of pending.entries()) {
+      try {
+        const playerId = await this.getPlayerId(steamId);
+        if (playerId) {
+          await this.saveStats(gameId, playerId, stats);
+        }
+      } catch (error) {
+        logger.error(`could not save player stats for game ${gameId} (${error.message})`);
+        this.restoreStats(gameId, steamId, stats);
+      }
+    }
+  }
+
+  private async saveStats(gameId: string, playerId: string, stats: Partial<StatsCounters>) {
+    const entry: PlayerGameStats = {
+      playerId, kills: 0, deaths: 0, assists: 0, damage: 0, heals: 0, ubers: 0, drops: 0,
+    };
+    await gameModel.updateOne(
+      { '_id': gameId, 'playerStats.playerId': { $ne: playerId } },
+      { $push: { playerStats: entry } },
+    );
+
+    const increments = Object.keys(stats)
+      .reduce((inc, stat) => ({ ...inc, [`playerStats.$.${stat}`]: stats[stat] }), { });
+    await gameModel.updateOne({ '_id': gameId, 'playerStats.playerId': playerId }, { $inc: increments });
+  }
+
+  private restoreStats(gameId: string, steamId: string, stats: Partial<StatsCounters>) {
+    if (!this.pendingStats.has(gameId)) {
+      this.pendingStats.set(gameId, new Map());
+    }
+
+    const pending = this.pendingStats.get(gameId);
+    const playerStats = pending.get(steamId) ?? { };
+    Object.keys(stats).forEach(stat => playerStats[stat] = (playerStats[stat] ?? 0) + stats[stat]);
+    pending.set(steamId, playerStats);
+  }
+
+  private async getPlayerId(steamId: string): Promise<string> {
+    if (!this.playerIds.has(steamId)) {
+      const player = await playerModel.findOne({ steamId });
+      if (!player) {
+        return null;
+      }
+
+      this.playerIds.set(steamId, player.id);
+    }
+
+    return this.playerIds.get(steamId);
+  }
+
+}
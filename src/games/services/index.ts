@@ -1 +1,3 @@
 export { GameService } from './game-service';
+export { GameStatsService } from './game-stats-service';
+export { SubstituteRequestService } from './substitute-request-service';
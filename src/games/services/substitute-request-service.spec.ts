@@ -0,0 +1,158 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { connect, Types } from 'mongoose';
+import { gameModel, substituteRequestModel } from '../models';
+import { GameService } from './game-service';
+import { SubstituteRequestService } from './substitute-request-service';
+
+class GameServiceStub {
+  public getGame(gameId: string) { return gameModel.findById(gameId); }
+  public substitutePlayer(gameId: string, playerId: string) { return Promise.resolve(); }
+}
+
+describe('SubstituteRequestService', () => {
+  const gameService = new GameServiceStub();
+  const playerId = new Types.ObjectId().toString();
+  const adminId = new Types.ObjectId().toString();
+  let mongod: MongoMemoryServer;
+  let service: SubstituteRequestService;
+  let gameId: string;
+
+  beforeAll(async () => {
+    mongod = new MongoMemoryServer();
+    const uri = await mongod.getConnectionString();
+    await connect(uri, { useNewUrlParser: true });
+  });
+
+  afterAll(async () => await mongod.stop());
+
+  beforeEach(async () => {
+    service = new SubstituteRequestService(gameService as unknown as GameService);
+    const game = await gameModel.create({
+      number: 1,
+      state: 'started',
+      slots: [ { playerId, teamId: '0', gameClass: 'soldier' } ],
+    });
+    gameId = game.id;
+  });
+
+  afterEach(async () => {
+    await gameModel.deleteMany({});
+    await substituteRequestModel.deleteMany({});
+  });
+
+  describe('#requestSubstitute()', () => {
+    it('should store the request', async () => {
+      const request = await service.requestSubstitute(gameId, playerId, 'my internet died');
+      expect(request.status).toEqual('pending');
+      expect(request.reason).toEqual('my internet died');
+      expect(await substituteRequestModel.countDocuments()).toEqual(1);
+    });
+
+    it('should require a reason', async () => {
+      await expectAsync(service.requestSubstitute(gameId, playerId, '  ')).toBeRejectedWithError('reason is required');
+    });
+
+    it('should fail if the player is not a member of the game', async () => {
+      await expectAsync(service.requestSubstitute(gameId, new Types.ObjectId().toString(), 'reason'))
+        .toBeRejectedWithError('this player is not a member of this game');
+    });
+
+    it('should fail if the game has ended', async () => {
+      await gameModel.updateOne({ _id: gameId }, { state: 'ended' });
+      await expectAsync(service.requestSubstitute(gameId, playerId, 'reason'))
+        .toBeRejectedWithError('the game has already ended');
+    });
+
+    it('should not allow two pending requests', async () => {
+      await service.requestSubstitute(gameId, playerId, 'reason');
+      await expectAsync(service.requestSubstitute(gameId, playerId, 'reason'))
+        .toBeRejectedWithError('this player has already requested a substitute');
+    });
+
+    it('should limit the number of requests', async () => {
+      for (let i = 0; i < 3; ++i) {
+        const request = await service.requestSubstitute(gameId, playerId, 'reason');
+        await service.denyRequest(gameId, request.id, adminId);
+      }
+
+      await expectAsync(service.requestSubstitute(gameId, playerId, 'reason'))
+        .toBeRejectedWithError('too many substitute requests, try again later');
+    });
+  });
+
+  describe('#approveRequest()', () => {
+    it('should substitute the player', async () => {
+      const spy = spyOn(gameService, 'substitutePlayer').and.callThrough();
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      const approved = await service.approveRequest(gameId, request.id, adminId);
+      expect(spy).toHaveBeenCalledWith(gameId, playerId);
+      expect(approved.status).toEqual('approved');
+      expect(approved.resolvedBy.toString()).toEqual(adminId);
+    });
+
+    it('should fail if the game has ended', async () => {
+      const spy = spyOn(gameService, 'substitutePlayer');
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      await gameModel.updateOne({ _id: gameId }, { state: 'interrupted' });
+      await expectAsync(service.approveRequest(gameId, request.id, adminId))
+        .toBeRejectedWithError('the game has already ended');
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should fail if the player has been substituted in the meantime', async () => {
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      await gameModel.updateOne({ _id: gameId }, { 'slots.0.status': 'waiting for substitute' });
+      await expectAsync(service.approveRequest(gameId, request.id, adminId))
+        .toBeRejectedWithError('this player is not playing in this game anymore');
+    });
+
+    it('should fail if the request has been resolved', async () => {
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      await service.denyRequest(gameId, request.id, adminId);
+      await expectAsync(service.approveRequest(gameId, request.id, adminId))
+        .toBeRejectedWithError('this substitute request has already been denied');
+    });
+
+    it('should fail if the request was made in another game', async () => {
+      const spy = spyOn(gameService, 'substitutePlayer');
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      await expectAsync(service.approveRequest(new Types.ObjectId().toString(), request.id, adminId))
+        .toBeRejectedWithError('no such substitute request');
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should let only one admin resolve the request', async () => {
+      const spy = spyOn(gameService, 'substitutePlayer').and.callThrough();
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      const results = await Promise.all([
+        service.approveRequest(gameId, request.id, adminId).then(() => true, () => false),
+        service.denyRequest(gameId, request.id, adminId).then(() => true, () => false),
+      ]);
+      expect(results.filter(r => r).length).toEqual(1);
+      expect(spy.calls.count()).toBeLessThanOrEqual(1);
+    });
+
+    it('should leave the request pending if the player could not be substituted', async () => {
+      spyOn(gameService, 'substitutePlayer').and.returnValue(Promise.reject(new Error('FAKE_ERROR')));
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      await expectAsync(service.approveRequest(gameId, request.id, adminId)).toBeRejectedWithError('FAKE_ERROR');
+      expect((await substituteRequestModel.findById(request.id)).status).toEqual('pending');
+    });
+  });
+
+  describe('#denyRequest()', () => {
+    it('should not substitute the player', async () => {
+      const spy = spyOn(gameService, 'substitutePlayer');
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      const denied = await service.denyRequest(gameId, request.id, adminId);
+      expect(spy).not.toHaveBeenCalled();
+      expect(denied.status).toEqual('denied');
+    });
+
+    it('should fail if the request was made in another game', async () => {
+      const request = await service.requestSubstitute(gameId, playerId, 'reason');
+      await expectAsync(service.denyRequest(new Types.ObjectId().toString(), request.id, adminId))
+        .toBeRejectedWithError('no such substitute request');
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { inject } from 'inversify';
+import { provide } from 'inversify-binding-decorators';
+import { Types } from 'mongoose';
+import logger from '../../logger';
+import { SubstituteRequest, substituteRequestModel } from '../models';
+import { GameService } from './game-service';
+
+const maxReasonLength = 200;
+// a player can ask to be substituted at most this many times in the given period
+const maxRequestsPerPeriod = 3;
+const rateLimitPeriod = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Handles players asking to be substituted in their game. Admins need to approve each request.
+ */
+@provide(SubstituteRequestService)
+export class SubstituteRequestService {
+
+  constructor(
+    @inject(GameService) private gameService: GameService,
+  ) { }
+
+  public async getRequestsForGame(gameId: string): Promise<Array<DocumentType<SubstituteRequest>>> {
+    return await substituteRequestModel.find({ game: gameId }).sort({ requestedAt: -1 });
+  }
+
+  public async requestSubstitute(gameId: string, playerId: string,
+                                 reason: string): Promise<DocumentType<SubstituteRequest>> {
+    if (typeof reason !== 'string' || !reason.trim()) {
+      throw new Error('reason is required');
+    }
+
+    if (reason.length > maxReasonLength) {
+      throw new Error(`reason cannot be longer than ${maxReasonLength} characters`);
+    }
+
+    const game = await this.gameService.getGame(gameId);
+    if (!game) {
+      throw new Error('no such game');
+    }
+
+    if (!/launching|started/.test(game.state)) {
+      throw new Error('the game has already ended');
+    }
+
+    const slot = game.slots.find(s => s.playerId === playerId && s.status !== 'replaced');
+    if (!slot) {
+      throw new Error('this player is not a member of this game');
+    }
+
+    if (slot.status === 'waiting for substitute') {
+      throw new Error('a substitute has already been requested for this player');
+    }
+
+    if (await substituteRequestModel.exists({ game: gameId, player: playerId, status: 'pending' })) {
+      throw new Error('this player has already requested a substitute');
+    }
+
+    const recentRequestCount = await substituteRequestModel.countDocuments({
+      player: playerId,
+      requestedAt: { $gte: new Date(Date.now() - rateLimitPeriod) },
+    });
+    if (recentRequestCount >= maxRequestsPerPeriod) {
+      throw new Error('too many substitute requests, try again later');
+    }
+
+    const request = await substituteRequestModel.create({ game: gameId, player: playerId, reason: reason.trim() });
+    logger.info(`player ${playerId} requested a substitute in game #${game.number} (${request.reason})`);
+    return request;
+  }
+
+  /**
+   * Marks the player as waiting for a substitute.
+   * The game has to be still running and the player has to be still playing in it.
+   * @param gameId The game the request was made in.
+   * @param requestId The request to approve.
+   * @param adminId The admin that takes the action.
+   */
+  public async approveRequest(gameId: string, requestId: string,
+                              adminId: string): Promise<DocumentType<SubstituteRequest>> {
+    const request = await this.getPendingRequest(gameId, requestId);
+    const game = await this.gameService.getGame(gameId);
+    if (!game || !/launching|started/.test(game.state)) {
+      throw new Error('the game has already ended');
+    }
+
+    if (!game.slots.some(s => s.playerId === request.player.toString() && s.status === 'active')) {
+      throw new Error('this player is not playing in this game anymore');
+    }
+
+    const approved = await this.resolveRequest(gameId, requestId, 'approved', adminId);
+    try {
+      await this.gameService.substitutePlayer(gameId, request.player.toString());
+    } catch (error) {
+      await substituteRequestModel.updateOne({ _id: requestId, status: 'approved' },
+        { $set: { status: 'pending' }, $unset: { resolvedBy: 1, resolvedAt: 1 } });
+      throw error;
+    }
+
+    return approved;
+  }
+
+  public async denyRequest(gameId: string, requestId: string,
+                           adminId: string): Promise<DocumentType<SubstituteRequest>> {
+    await this.getPendingRequest(gameId, requestId);
+    return await this.resolveRequest(gameId, requestId, 'denied', adminId);
+  }
+
+  private async getPendingRequest(gameId: string, requestId: string): Promise<DocumentType<SubstituteRequest>> {
+    const request = await substituteRequestModel.findOne({ _id: requestId, game: gameId });
+    if (!request) {
+      throw new Error('no such substitute request');
+    }
+
+    if (request.status !== 'pending') {
+      throw new Error(`this substitute request has already been ${request.status}`);
+    }
+
+    return request;
+  }
+
+  /**
+   * Only one admin can resolve the request, even if more of them do it at the same time.
+   */
+  private async resolveRequest(gameId: string, requestId: string, status: 'approved' | 'denied',
+                               adminId: string): Promise<DocumentType<SubstituteRequest>> {
+    const request = await substituteRequestModel.findOneAndUpdate(
+      { _id: requestId, game: gameId, status: 'pending' },
+      { $set: { status, resolvedBy: Types.ObjectId(adminId), resolvedAt: new Date() } },
+      { new: true });
+    if (!request) {
+      throw new Error('this substitute request has already been handled');
+    }
+
+    logger.info(`substitute request ${request.id} ${status} by ${adminId}`);
+    return request;
+  }
+
+}
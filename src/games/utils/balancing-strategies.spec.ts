@@ -0,0 +1,51 @@
+import { averageSkill, createBalancingStrategy, perClassMismatch, random, weightedByClass } from './balancing-strategies';
+
+describe('balancing strategies', () => {
+  const teams = [
+    [
+      { gameClass: 'soldier', skill: 1 },
+      { gameClass: 'medic', skill: 4 },
+    ],
+    [
+      { gameClass: 'soldier', skill: 3 },
+      { gameClass: 'medic', skill: 3 },
+    ],
+  ];
+
+  describe('averageSkill()', () => {
+    it('should compare average skills', () => {
+      expect(averageSkill(teams)).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('weightedByClass()', () => {
+    it('should make some classes count more', () => {
+      const strategy = weightedByClass([ { name: 'soldier' }, { name: 'medic', weight: 3 } ]);
+      // (1 + 4 * 3) / 4 = 3.25 vs (3 + 3 * 3) / 4 = 3
+      expect(strategy(teams)).toBeCloseTo(0.25);
+    });
+  });
+
+  describe('perClassMismatch()', () => {
+    it('should sum up differences of each class', () => {
+      expect(perClassMismatch(teams)).toBeCloseTo(3);
+    });
+  });
+
+  describe('random()', () => {
+    it('should not prefer any setup', () => {
+      expect(random(teams)).toEqual(0);
+    });
+  });
+
+  describe('createBalancingStrategy()', () => {
+    it('should pick the strategy by its name', () => {
+      expect(createBalancingStrategy('average-skill', [])).toBe(averageSkill);
+      expect(createBalancingStrategy('random', [])).toBe(random);
+    });
+
+    it('should deny unknown strategies', () => {
+      expect(() => createBalancingStrategy('FAKE_STRATEGY' as any, [])).toThrowError();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+interface RatedPlayer {
+  gameClass: string;
+  skill: number;
+}
+
+interface WeightedClass {
+  name: string;
+  weight?: number;
+}
+
+/**
+ * Tells how unbalanced the given teams are; the lower, the better.
+ */
+export type BalancingStrategy = (teams: RatedPlayer[][]) => number;
+
+export const balancingStrategyNames = [ 'average-skill', 'weighted-by-class', 'per-class-mismatch', 'random' ] as const;
+export type BalancingStrategyName = typeof balancingStrategyNames[number];
+
+function weightedAverage(players: RatedPlayer[], weight: (player: RatedPlayer) => number): number {
+  const totalWeight = players.reduce((prev, curr) => prev + weight(curr), 0);
+  return totalWeight ? players.reduce((prev, curr) => prev + curr.skill * weight(curr), 0) / totalWeight : 0;
+}
+
+/**
+ * The difference between average skills of both teams.
+ */
+export const averageSkill: BalancingStrategy = ([ a, b ]) =>
+  Math.abs(weightedAverage(a, () => 1) - weightedAverage(b, () => 1));
+
+/**
+ * Same as average-skill, but skills of some classes (like medic) count more.
+ */
+export function weightedByClass(classes: WeightedClass[]): BalancingStrategy {
+  const weights = new Map(classes.map(cls => [ cls.name, cls.weight ?? 1 ]));
+  const weight = (player: RatedPlayer) => weights.get(player.gameClass) ?? 1;
+  return ([ a, b ]) => Math.abs(weightedAverage(a, weight) - weightedAverage(b, weight));
+}
+
+/**
+ * Sum of skill differences between players of the same class, so that each class matchup is as even as possible.
+ */
+export const perClassMismatch: BalancingStrategy = ([ a, b ]) => {
+  const gameClasses = new Set([ ...a, ...b ].map(p => p.gameClass));
+  return [ ...gameClasses ]
+    .map(gameClass => averageSkill([ a, b ].map(team => team.filter(p => p.gameClass === gameClass))))
+    .reduce((prev, curr) => prev + curr, 0);
+};
+
+/**
+ * All team setups are equally good.
+ */
+export const random: BalancingStrategy = () => 0;
+
+export function createBalancingStrategy(name: BalancingStrategyName, classes: WeightedClass[]): BalancingStrategy {
+  switch (name) {
+    case 'average-skill':
+      return averageSkill;
+
+    case 'weighted-by-class':
+      return weightedByClass(classes);
+
+    case 'per-class-mismatch':
+      return perClassMismatch;
+
+    case 'random':
+      return random;
+
+    default:
+      throw new Error(`unknown balancing strategy: ${name}`);
+  }
+}
@@ -1,23 +1,13 @@
-import { Rcon } from 'rcon-client';
 import { config } from '../../config';
-import { GameServer } from '../../game-servers/models';
+import { GameServer, RconSession } from '../../game-servers/models';
 import logger from '../../logger';
 
-export async function cleanupServer(server: GameServer) {
+export async function cleanupServer(rcon: RconSession, server: GameServer) {
   try {
-    const rcon = new Rcon({
-      host: server.address,
-      port: server.port,
-      password: server.rconPassword,
-      timeout: 30000,
-    });
-    await rcon.connect();
-
     const logAddress = `${config.logRelay.address}:${config.logRelay.port}`;
     logger.debug(`[${server.name}] removing log address ${logAddress}...`);
-    await rcon.send(`logaddress_del ${logAddress}`);
-    await rcon.send('sm_game_player_delall');
-    await rcon.end();
+    await rcon.send(`logaddress_del ${logAddress}`, { idempotent: true });
+    await rcon.send('sm_game_player_delall', { idempotent: true });
   } catch (error) {
     throw new Error(`could not cleanup server ${server.name} (${error.message})`);
   }
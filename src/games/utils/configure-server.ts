@@ -1,43 +1,36 @@
 import { generate } from 'generate-password';
-import { Rcon } from 'rcon-client';
 import { config } from '../../config';
-import { GameServer, ServerInfoForPlayer } from '../../game-servers/models';
+import { GameServer, RconSession, ServerInfoForPlayer } from '../../game-servers/models';
 import logger from '../../logger';
 import { Player, playerModel } from '../../players/models/player';
+import { MapPoolItem } from '../../queue/models/map-pool-item';
 import { Game } from '../models';
 
-export async function configureServer(server: GameServer,
+export async function configureServer(rcon: RconSession,
+                                      server: GameServer,
                                       game: Game,
-                                      execConfigs: string[]): Promise<ServerInfoForPlayer> {
+                                      map: MapPoolItem): Promise<ServerInfoForPlayer> {
   logger.info(`configuring server ${server.name}...`);
   logger.debug(`[${server.name}] using rcon password ${server.rconPassword}`);
 
   try {
-    const rcon = new Rcon({
-      host: server.address,
-      port: server.port,
-      password: server.rconPassword,
-      timeout: 30000,
-    });
-    await rcon.connect();
-
     const logAddress = `${config.logRelay.address}:${config.logRelay.port}`;
     logger.debug(`[${server.name}] adding log address ${logAddress}...`);
-    await rcon.send(`logaddress_add ${logAddress}`);
+    await rcon.send(`logaddress_add ${logAddress}`, { idempotent: true });
 
     logger.debug(`[${server.name}] kicking all players...`);
     await rcon.send(`kickall`);
-    logger.debug(`[${server.name}] changing map to ${game.map}...`);
-    await rcon.send(`changelevel ${game.map}`);
+    logger.debug(`[${server.name}] changing map to ${map.name}...`);
+    await rcon.send(`changelevel ${map.name}`);
 
-    for (const execConfig of execConfigs) {
+    for (const execConfig of map.execConfigs) {
       logger.debug(`[${server.name}] executing ${execConfig}...`);
       await rcon.send(`exec ${execConfig}`);
     }
 
     const password = generate({ length: 10, numbers: true, uppercase: true });
     logger.debug(`[${server.name}] settings password to ${password}...`);
-    await rcon.send(`sv_password ${password}`);
+    await rcon.send(`sv_password ${password}`, { idempotent: true });
 
     for (const slot of game.slots) {
       const player = await playerModel.findById(slot.playerId).lean() as Player;
@@ -49,11 +42,9 @@ export async function configureServer(server: GameServer,
         `-team ${team}`,
         `-class ${slot.gameClass}`,
       ].join(' ');
-      logger.debug(`[${server.name}] ${cmd}`);
       await rcon.send(cmd);
     }
 
-    await rcon.end();
     logger.info(`[${server.name}] server ready.`);
 
     const connectString = `connect ${server.address}:${server.port}; password ${password}`;
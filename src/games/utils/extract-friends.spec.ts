@@ -8,7 +8,7 @@ describe('extractFriends()', () => {
       { id: 1, gameClass: 'medic', playerId: 'FAKE_MEDIC', playerReady: true, friend: 'FAKE_SOLLY' },
     ];
 
-    expect(extractFriends(slots)).toEqual([['FAKE_MEDIC', 'FAKE_SOLLY']]);
+    expect(extractFriends(slots, [ 'medic' ])).toEqual([['FAKE_MEDIC', 'FAKE_SOLLY']]);
   });
 
   it('should only consider medics', () => {
@@ -17,7 +17,18 @@ describe('extractFriends()', () => {
       { id: 1, gameClass: 'demoman', playerId: 'FAKE_DEMO', playerReady: true, friend: 'FAKE_SOLLY' },
     ];
 
-    expect(extractFriends(slots)).toEqual([]);
+    expect(extractFriends(slots, [ 'medic' ])).toEqual([]);
+  });
+
+  it('should consider all the given classes', () => {
+    const slots: QueueSlot[] = [
+      { id: 0, gameClass: 'soldier', playerId: 'FAKE_SOLLY', playerReady: true },
+      { id: 1, gameClass: 'demoman', playerId: 'FAKE_DEMO', playerReady: true, friend: 'FAKE_SOLLY' },
+      { id: 2, gameClass: 'scout', playerId: 'FAKE_SCOUT', playerReady: true },
+      { id: 3, gameClass: 'medic', playerId: 'FAKE_MEDIC', playerReady: true, friend: 'FAKE_SCOUT' },
+    ];
+
+    expect(extractFriends(slots, [ 'medic', 'demoman' ])).toEqual([['FAKE_DEMO', 'FAKE_SOLLY'], ['FAKE_MEDIC', 'FAKE_SCOUT']]);
   });
 
   it('should get rid of friends that are not among the slots', () => {
@@ -26,7 +37,7 @@ describe('extractFriends()', () => {
       { id: 1, gameClass: 'medic', playerId: 'FAKE_MEDIC', playerReady: true, friend: 'FAKE_SOLLY_2' },
     ];
 
-    expect(extractFriends(slots)).toEqual([]);
+    expect(extractFriends(slots, [ 'medic' ])).toEqual([]);
   });
 
   it('should not pair up two medics', () => {
@@ -35,6 +46,6 @@ describe('extractFriends()', () => {
       { id: 1, gameClass: 'medic', playerId: 'FAKE_MEDIC_2', playerReady: true, friend: 'FAKE_MEDIC_1' },
     ];
 
-    expect(extractFriends(slots)).toEqual([]);
+    expect(extractFriends(slots, [ 'medic' ])).toEqual([]);
   });
 });
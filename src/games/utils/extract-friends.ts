@@ -1,12 +1,17 @@
 import { QueueSlot } from '.../../queue/models/queue-slot';
 
-export function extractFriends(slots: QueueSlot[]): string[][] {
+/**
+ * Find pairs of players that want to be in the same team.
+ * @param slots The queue slots.
+ * @param friendMarkingClasses Classes whose players can mark friends.
+ */
+export function extractFriends(slots: QueueSlot[], friendMarkingClasses: string[]): string[][] {
   return slots
-    .filter(s => s.gameClass === 'medic')
+    .filter(s => friendMarkingClasses.includes(s.gameClass))
     .filter(s => !!s.friend)
     .map(s => {
       const friend = slots.find(f => f.playerId === s.friend);
-      if (!friend || friend.gameClass === 'medic') {
+      if (!friend || friend.gameClass === s.gameClass) {
         return null;
       } else {
         return [ s.playerId, friend.playerId ];
@@ -0,0 +1,16 @@
+import { launchRetryDelay } from './launch-retry-delay';
+
+describe('launchRetryDelay()', () => {
+  it('should wait 10 seconds after the first attempt', () => {
+    expect(launchRetryDelay(1)).toEqual(10 * 1000);
+  });
+
+  it('should double the delay with each attempt', () => {
+    expect(launchRetryDelay(2)).toEqual(20 * 1000);
+    expect(launchRetryDelay(3)).toEqual(40 * 1000);
+  });
+
+  it('should not wait longer than 2 minutes', () => {
+    expect(launchRetryDelay(10)).toEqual(2 * 60 * 1000);
+  });
+});
@@ -0,0 +1,10 @@
+const initialDelay = 10 * 1000; // 10 seconds
+const maxDelay = 2 * 60 * 1000; // 2 minutes
+
+/**
+ * How long to wait before trying to launch the game again; the delay doubles with each failed attempt.
+ * @param attempts How many attempts have failed so far.
+ */
+export function launchRetryDelay(attempts: number): number {
+  return Math.min(initialDelay * Math.pow(2, Math.max(attempts - 1, 0)), maxDelay);
+}
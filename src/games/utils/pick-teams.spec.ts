@@ -1,3 +1,4 @@
+import { perClassMismatch } from './balancing-strategies';
 import { pickTeams, PlayerSlot, TeamOverrides } from './pick-teams';
 
 describe('pickTeams', () => {
@@ -11,7 +12,7 @@ describe('pickTeams', () => {
       ];
       const gameClasses = ['soldier'];
 
-      const gamePlayers = pickTeams(players, gameClasses);
+      const { slots: gamePlayers } = pickTeams(players, gameClasses);
       expect(gamePlayers.length).toBe(4);
       expect(gamePlayers.filter(p => p.teamId === '0').length).toBe(2);
       expect(gamePlayers.filter(p => p.teamId === '1').length).toBe(2);
@@ -39,7 +40,7 @@ describe('pickTeams', () => {
         { playerId: '3', gameClass: 'medic', skill: 4 },
       ];
       const gameClasses = ['scout', 'soldier', 'demoman', 'medic'];
-      const gamePlayers = pickTeams(players, gameClasses);
+      const { slots: gamePlayers } = pickTeams(players, gameClasses);
 
       expect(gamePlayers.filter(p => p.teamId === '0').length).toBe(6);
       expect(gamePlayers.filter(p => p.teamId === '1').length).toBe(6);
@@ -61,7 +62,7 @@ describe('pickTeams', () => {
         { playerId: '11', gameClass: 'medic', skill: 1 },
       ];
       const gameClasses = ['scout', 'soldier', 'demoman', 'medic'];
-      const gamePlayers = pickTeams(players, gameClasses);
+      const { slots: gamePlayers } = pickTeams(players, gameClasses);
 
       expect(gamePlayers.filter(p => p.teamId === '0').length).toBe(6);
       expect(gamePlayers.filter(p => p.teamId === '1').length).toBe(6);
@@ -70,6 +71,78 @@ describe('pickTeams', () => {
         .not
         .toEqual(gamePlayers.find(p => p.playerId === '10').teamId);
     });
+
+    it('should report the skill difference', () => {
+      const players: PlayerSlot[] = [
+        { playerId: '0', gameClass: 'soldier', skill: 1 },
+        { playerId: '1', gameClass: 'soldier', skill: 2 },
+        { playerId: '2', gameClass: 'medic', skill: 3 },
+        { playerId: '3', gameClass: 'medic', skill: 5 },
+      ];
+      const gameClasses = ['soldier', 'medic'];
+
+      const { slots: gamePlayers, skillDifference } = pickTeams(players, gameClasses);
+      expect(skillDifference).toBeCloseTo(0.5);
+      expect(gamePlayers.find(p => p.playerId === '0').teamId)
+        .toEqual(gamePlayers.find(p => p.playerId === '3').teamId);
+    });
+
+    it('should use the given balancing strategy', () => {
+      const players: PlayerSlot[] = [
+        { playerId: '0', gameClass: 'soldier', skill: 1 },
+        { playerId: '1', gameClass: 'soldier', skill: 2 },
+        { playerId: '2', gameClass: 'soldier', skill: 3 },
+        { playerId: '3', gameClass: 'soldier', skill: 4 },
+        { playerId: '4', gameClass: 'medic', skill: 1 },
+        { playerId: '5', gameClass: 'medic', skill: 9 },
+      ];
+      const gameClasses = ['soldier', 'medic'];
+
+      // average skill would put the two worst soldiers with the best medic
+      const { slots: gamePlayers, skillDifference } = pickTeams(players, gameClasses, undefined, perClassMismatch);
+      expect(skillDifference).toBeCloseTo(8);
+      expect(gamePlayers.find(p => p.playerId === '0').teamId)
+        .toEqual(gamePlayers.find(p => p.playerId === '3').teamId);
+    });
+
+    it('should pick teams for 18 slots', () => {
+      const gameClasses = ['scout', 'soldier', 'pyro', 'demoman', 'heavyweapons', 'engineer', 'medic', 'sniper', 'spy'];
+      const players: PlayerSlot[] = gameClasses.flatMap((gameClass, i) => [
+        { playerId: `${2 * i}`, gameClass, skill: i },
+        { playerId: `${2 * i + 1}`, gameClass, skill: i + 1 },
+      ]);
+
+      const { slots: gamePlayers, skillDifference } = pickTeams(players, gameClasses);
+      expect(gamePlayers.filter(p => p.teamId === '0').length).toBe(9);
+      expect(gamePlayers.filter(p => p.teamId === '1').length).toBe(9);
+      gameClasses.forEach(gameClass => {
+        expect(gamePlayers.filter(p => p.gameClass === gameClass && p.teamId === '0').length).toBe(1);
+      });
+      expect(skillDifference).toBeCloseTo(1 / 9);
+    });
+
+    it('should pick teams for large formats', () => {
+      const gameClasses = ['scout', 'soldier', 'demoman', 'medic'];
+      const players: PlayerSlot[] = gameClasses.flatMap((gameClass, i) =>
+        [0, 1, 2, 3, 4, 5, 6, 7].map(n => ({ playerId: `${i * 8 + n}`, gameClass, skill: n % 4 + 1 })));
+
+      const { slots: gamePlayers, skillDifference } = pickTeams(players, gameClasses);
+      expect(gamePlayers.length).toBe(32);
+      gameClasses.forEach(gameClass => {
+        expect(gamePlayers.filter(p => p.gameClass === gameClass && p.teamId === '0').length).toBe(4);
+        expect(gamePlayers.filter(p => p.gameClass === gameClass && p.teamId === '1').length).toBe(4);
+      });
+      expect(skillDifference).toBeCloseTo(0);
+    });
+
+    it('should pick teams when a single class has too many players to try every split', () => {
+      const players: PlayerSlot[] = [...Array(24).keys()]
+        .map(n => ({ playerId: `${n}`, gameClass: 'soldier', skill: n % 6 + 1 }));
+
+      const { slots: gamePlayers } = pickTeams(players, ['soldier']);
+      expect(gamePlayers.filter(p => p.teamId === '0').length).toBe(12);
+      expect(gamePlayers.filter(p => p.teamId === '1').length).toBe(12);
+    });
   });
 
   describe('with team overrides', () => {
@@ -87,7 +160,7 @@ describe('pickTeams', () => {
         ],
       };
 
-      const gamePlayers = pickTeams(players, gameClasses, overrides);
+      const { slots: gamePlayers } = pickTeams(players, gameClasses, overrides);
       expect(gamePlayers.length).toBe(4);
       expect(gamePlayers.find(p => p.playerId === '0').teamId)
         .toEqual(gamePlayers.find(p => p.playerId === '2').teamId);
@@ -114,10 +187,70 @@ describe('pickTeams', () => {
           [ '10', '6' ],
         ],
       };
-      const gamePlayers = pickTeams(players, gameClasses, overrides);
+      const { slots: gamePlayers } = pickTeams(players, gameClasses, overrides);
 
       expect(gamePlayers.find(p => p.playerId === '10').teamId)
         .toEqual(gamePlayers.find(p => p.playerId === '6').teamId);
     });
+
+    it('should honor all the friends', () => {
+      const players: PlayerSlot[] = [
+        { playerId: '0', gameClass: 'scout', skill: 1 },
+        { playerId: '1', gameClass: 'scout', skill: 2 },
+        { playerId: '2', gameClass: 'scout', skill: 3 },
+        { playerId: '3', gameClass: 'scout', skill: 4 },
+        { playerId: '4', gameClass: 'soldier', skill: 1 },
+        { playerId: '5', gameClass: 'soldier', skill: 2 },
+        { playerId: '6', gameClass: 'soldier', skill: 3 },
+        { playerId: '7', gameClass: 'soldier', skill: 4 },
+        { playerId: '8', gameClass: 'demoman', skill: 1 },
+        { playerId: '9', gameClass: 'demoman', skill: 5 },
+        { playerId: '10', gameClass: 'medic', skill: 1 },
+        { playerId: '11', gameClass: 'medic', skill: 5 },
+      ];
+      const gameClasses = ['scout', 'soldier', 'demoman', 'medic'];
+      const overrides: TeamOverrides = {
+        friends: [
+          [ '10', '3' ],
+          [ '11', '0' ],
+          [ '8', '7' ],
+          [ '9', '4' ],
+        ],
+      };
+      const { slots: gamePlayers } = pickTeams(players, gameClasses, overrides);
+
+      overrides.friends.forEach(([ a, b ]) => {
+        expect(gamePlayers.find(p => p.playerId === a).teamId)
+          .toEqual(gamePlayers.find(p => p.playerId === b).teamId);
+      });
+    });
+
+    it('should not put more friends in one team than allowed', () => {
+      const players: PlayerSlot[] = [
+        { playerId: '0', gameClass: 'scout', skill: 1 },
+        { playerId: '1', gameClass: 'scout', skill: 1 },
+        { playerId: '2', gameClass: 'demoman', skill: 1 },
+        { playerId: '3', gameClass: 'demoman', skill: 5 },
+        { playerId: '4', gameClass: 'medic', skill: 5 },
+        { playerId: '5', gameClass: 'medic', skill: 1 },
+        { playerId: '6', gameClass: 'soldier', skill: 1 },
+        { playerId: '7', gameClass: 'soldier', skill: 1 },
+      ];
+      const gameClasses = ['scout', 'soldier', 'demoman', 'medic'];
+      // both friendships in one team would make the most balanced teams
+      const overrides: TeamOverrides = {
+        friends: [
+          [ '4', '0' ],
+          [ '2', '6' ],
+        ],
+        maxFriendsPerTeam: 1,
+      };
+      const { slots: gamePlayers } = pickTeams(players, gameClasses, overrides);
+      const teamOf = (playerId: string) => gamePlayers.find(p => p.playerId === playerId).teamId;
+
+      expect(teamOf('4')).not.toEqual(teamOf('2'));
+      expect(teamOf('4')).toEqual(teamOf('0'));
+      expect(teamOf('2')).toEqual(teamOf('6'));
+    });
   });
 });
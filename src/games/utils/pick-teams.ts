@@ -1,5 +1,7 @@
+import { shuffle } from 'lodash';
 import logger from '../../logger';
 import { GamePlayer } from '../models';
+import { averageSkill, BalancingStrategy } from './balancing-strategies';
 
 export interface PlayerSlot {
   playerId: string;
@@ -9,132 +11,202 @@ export interface PlayerSlot {
 
 export interface TeamOverrides {
   friends: string[][];
+  maxFriendsPerTeam?: number; // no limit if not set
 }
 
-interface InterimTeamSetup {
-  [teamId: number]: PlayerSlot[];
+export interface TeamSetup {
+  slots: GamePlayer[];
+  skillDifference: number; // as measured by the balancing strategy
+}
+
+type Teams = [ PlayerSlot[], PlayerSlot[] ];
+
+interface Candidate {
+  teams: Teams;
   skillDifference: number;
+  satisfiedFriends: number;
 }
 
-function filterTeamOverrides(teamSetups: InterimTeamSetup[], overrides: TeamOverrides): InterimTeamSetup[] {
-  return teamSetups.filter(setup => {
-    let hasAllFriends = false;
-    overrides.friends.forEach(friends => {
-      if (friends.every(f => !!setup[0].find(s => s.playerId === f))) {
-        hasAllFriends = true;
-      }
-    });
+// above this many possible team setups a local search is used instead of trying every single one
+const maxExhaustiveSetups = 20000;
+const localSearchRestarts = 20;
+const epsilon = 1e-9;
 
-    return hasAllFriends;
-  });
+/**
+ * In how many ways k out of n items can be chosen.
+ */
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; ++i) {
+    result = result * (n - k + i) / i;
+  }
+
+  return Math.round(result);
 }
 
 /**
- * From the given pool of players make two teams that make the smallest average skill difference.
+ * All the ways players of a single class can be divided between the two teams.
  */
-export function pickTeams(players: PlayerSlot[], gameClasses: string[], overrides?: TeamOverrides): GamePlayer[] {
-  const allPossibilities: Array<{
-    gameClass: string,
-    allClassCombinations: Array<{ [teamId: number]: PlayerSlot[] }>,
-  }> = [];
-
-  for (const gameClass of gameClasses) {
-    const ofGameClass = players.filter(p => p.gameClass === gameClass);
-    const allClassCombinations: Array<{ [teamId: number]: PlayerSlot[] }> = [];
-
-    if (ofGameClass.length === 2) {
-      allClassCombinations.push({
-        0: [ ofGameClass[0] ],
-        1: [ ofGameClass[1] ],
-      });
-
-      allClassCombinations.push({
-        0: [ ofGameClass[1] ],
-        1: [ ofGameClass[0] ],
-      });
-    } else {
-      for (let i = 0; i < ofGameClass.length - 1; ++i) {
-        for (let j = i + 1; j < ofGameClass.length; ++j) {
-          const a = [];
-          const b = [];
-          for (let k = 0; k < ofGameClass.length; ++k) {
-            if (k === i || k === j) {
-              a.push(ofGameClass[k]);
-            } else {
-              b.push(ofGameClass[k]);
-            }
-          }
+function splitsOf(players: PlayerSlot[]): Teams[] {
+  const half = Math.floor(players.length / 2);
+  const splits: Teams[] = [];
+
+  function pick(start: number, picked: number[]) {
+    if (picked.length === half) {
+      splits.push([
+        players.filter((p, i) => picked.includes(i)),
+        players.filter((p, i) => !picked.includes(i)),
+      ]);
+      return;
+    }
 
-          allClassCombinations.push({
-            0: a,
-            1: b,
-          });
-        }
-      }
+    for (let i = start; i < players.length; ++i) {
+      pick(i + 1, [ ...picked, i ]);
     }
+  }
+
+  pick(0, []);
+  return splits;
+}
+
+/**
+ * Friends in excess of the per-team limit do not count, so that the friends are spread between the teams.
+ */
+function evaluate(teams: Teams, strategy: BalancingStrategy, overrides?: TeamOverrides): Candidate {
+  const maxFriendsPerTeam = overrides?.maxFriendsPerTeam ?? Infinity;
+  const satisfiedFriends = teams
+    .map(team => (overrides?.friends ?? []).filter(group => group.every(f => team.some(p => p.playerId === f))))
+    .reduce((count, groups) => count + Math.min(groups.length, maxFriendsPerTeam), 0);
+  return {
+    teams,
+    skillDifference: strategy(teams),
+    satisfiedFriends,
+  };
+}
 
-    allPossibilities.push({ gameClass, allClassCombinations });
+/**
+ * Honoring friends comes first, then the skill difference.
+ * @returns negative if a is better than b, positive if b is better, 0 if they are equally good.
+ */
+function compare(a: Candidate, b: Candidate): number {
+  if (a.satisfiedFriends !== b.satisfiedFriends) {
+    return b.satisfiedFriends - a.satisfiedFriends;
   }
 
-  const tmp = [];
-
-  function makeAllCombinations(prev: any[]) {
-    if (prev.length === gameClasses.length) {
-      tmp.push(prev);
-    } else {
-      const gameClass = gameClasses[prev.length];
-      const allClassCombinations = allPossibilities
-        .filter(p => p.gameClass === gameClass)
-        .map(p => p.allClassCombinations)
-        [0];
-      for (const c of allClassCombinations) {
-        makeAllCombinations([...prev, c]);
+  const diff = a.skillDifference - b.skillDifference;
+  return Math.abs(diff) < epsilon ? 0 : diff;
+}
+
+function merge(classSplits: Teams[]): Teams {
+  return [
+    classSplits.flatMap(split => split[0]),
+    classSplits.flatMap(split => split[1]),
+  ];
+}
+
+function searchExhaustively(allSplits: Teams[][], strategy: BalancingStrategy,
+                            overrides?: TeamOverrides): Candidate[] {
+  let best: Candidate[] = [];
+
+  function search(picked: Teams[]) {
+    if (picked.length === allSplits.length) {
+      const candidate = evaluate(merge(picked), strategy, overrides);
+      const result = best.length ? compare(candidate, best[0]) : -1;
+      if (result < 0) {
+        best = [ candidate ];
+      } else if (result === 0) {
+        best.push(candidate);
       }
+      return;
     }
-  }
 
-  makeAllCombinations([]);
+    for (const split of allSplits[picked.length]) {
+      search([ ...picked, split ]);
+    }
+  }
 
-  let allCombinations: InterimTeamSetup[] = tmp.map(c => c.reduce((prev, curr) => {
-    prev[0] = prev[0].concat(curr[0]);
-    prev[1] = prev[1].concat(curr[1]);
-    return prev;
-  }, { 0: [], 1: [] }));
+  search([]);
+  return best;
+}
 
-  allCombinations.forEach(c => {
-    const skillRed = c[0].reduce((prev, curr) => prev + curr.skill, 0) / c[0].length;
-    const skillBlu = c[1].reduce((prev, curr) => prev + curr.skill, 0) / c[1].length;
-    c.skillDifference = Math.abs(skillRed - skillBlu);
-  });
+/**
+ * Start with random teams and keep swapping players of the same class as long as it makes the teams better.
+ * Repeated a few times to avoid getting stuck in a local optimum.
+ */
+function searchLocally(playersByClass: PlayerSlot[][], strategy: BalancingStrategy,
+                       overrides?: TeamOverrides): Candidate {
+  let best: Candidate;
+
+  for (let restart = 0; restart < localSearchRestarts; ++restart) {
+    const classSplits: Teams[] = playersByClass.map(players => {
+      const shuffled = shuffle(players);
+      const half = Math.floor(shuffled.length / 2);
+      return [ shuffled.slice(0, half), shuffled.slice(half) ] as Teams;
+    });
 
-  logger.debug(`${allCombinations.length} possible team setups`);
+    let current = evaluate(merge(classSplits), strategy, overrides);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const split of classSplits) {
+        for (let i = 0; i < split[0].length; ++i) {
+          for (let j = 0; j < split[1].length; ++j) {
+            [ split[0][i], split[1][j] ] = [ split[1][j], split[0][i] ];
+            const candidate = evaluate(merge(classSplits), strategy, overrides);
+            if (compare(candidate, current) < 0) {
+              current = candidate;
+              improved = true;
+            } else {
+              [ split[0][i], split[1][j] ] = [ split[1][j], split[0][i] ];
+            }
+          }
+        }
+      }
+    }
 
-  if (overrides) {
-    const tmpCombinations = filterTeamOverrides(allCombinations, overrides);
-    logger.debug(`${tmpCombinations.length} possible team setups after filtering out overrides`);
-    if (tmpCombinations.length > 0) {
-      allCombinations = tmpCombinations;
+    if (!best || compare(current, best) < 0) {
+      best = current;
     }
   }
 
-  allCombinations.sort((a, b) => a.skillDifference - b.skillDifference);
-  const lowestSkillDifference = allCombinations[0].skillDifference;
-  const possibleTeams = allCombinations.filter(c => c.skillDifference === lowestSkillDifference);
-  logger.debug(`there are ${possibleTeams.length} possible teams with lowest skill difference`);
+  return best;
+}
+
+/**
+ * From the given pool of players make two teams that are the most balanced according to the given strategy.
+ * Small formats are searched exhaustively; for the larger ones the best setup found by a local search is picked.
+ * Friends are put in the same team whenever possible.
+ */
+export function pickTeams(players: PlayerSlot[], gameClasses: string[], overrides?: TeamOverrides,
+                          strategy: BalancingStrategy = averageSkill): TeamSetup {
+  const playersByClass = gameClasses.map(gameClass => players.filter(p => p.gameClass === gameClass));
+  // the splits themselves are too many to be listed for the larger formats
+  const setupCount = playersByClass
+    .reduce((prev, curr) => prev * binomial(curr.length, Math.floor(curr.length / 2)), 1);
+  logger.debug(`${setupCount} possible team setups`);
+
+  let selected: Candidate;
+  if (setupCount <= maxExhaustiveSetups) {
+    const allSplits = playersByClass.map(ofGameClass => splitsOf(ofGameClass));
+    const possibleTeams = searchExhaustively(allSplits, strategy, overrides);
+    logger.debug(`there are ${possibleTeams.length} possible teams with lowest skill difference`);
+    selected = possibleTeams[Math.floor(Math.random() * possibleTeams.length)];
+  } else {
+    selected = searchLocally(playersByClass, strategy, overrides);
+  }
+
+  const friendCount = Math.min(overrides?.friends.length ?? 0, (overrides?.maxFriendsPerTeam ?? Infinity) * 2);
+  if (selected.satisfiedFriends < friendCount) {
+    logger.warn(`only ${selected.satisfiedFriends} out of ${friendCount} friend requests can be honored`);
+  }
 
-  const selected = possibleTeams[Math.floor(Math.random() * possibleTeams.length)];
-  logger.debug(`team average skill difference = ${selected.skillDifference}`);
+  logger.debug(`team skill difference = ${selected.skillDifference}`);
 
-  return Object.keys(selected)
-    .map(key => {
-      if (selected[key].length) {
-        return selected[key].map(p => ({...p, teamId: key}));
-      }
-    })
-    .filter(e => !!e)
-    .flatMap(p => p)
-    .map(p => {
-      const { skill, ...player } = p;
-      return { ...player, status: 'active' };
-    });
+  const slots = selected.teams
+    .flatMap((team, teamId) => team.map(({ skill, ...player }) => ({
+      ...player,
+      teamId: `${teamId}`,
+      status: 'active' as const,
+    })));
+  return { slots, skillDifference: selected.skillDifference };
 }
@@ -0,0 +1,25 @@
+import { GameServer, RconSession } from '../../game-servers/models';
+import { Player } from '../../players/models/player';
+import { GamePlayer } from '../models';
+
+export async function replacePlayerOnServer(rcon: RconSession, server: GameServer, replacee: Player,
+                                            replacement: Player, slot: GamePlayer) {
+  try {
+    const team = parseInt(slot.teamId, 10) + 2;
+    const cmds = [
+      `sm_game_player_del ${replacee.steamId}`,
+      [
+        `sm_game_player_add ${replacement.steamId}`,
+        `-name "${replacement.name}"`,
+        `-team ${team}`,
+        `-class ${slot.gameClass}`,
+      ].join(' '),
+    ];
+
+    for (const cmd of cmds) {
+      await rcon.send(cmd);
+    }
+  } catch (error) {
+    throw new Error(`could not replace player on server ${server.name} (${error.message})`);
+  }
+}
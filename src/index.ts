@@ -10,6 +10,7 @@ import './auth';
 import './core';
 import './game-servers';
 import './games';
+import './maps';
 import './players';
 import './profile';
 import './queue';
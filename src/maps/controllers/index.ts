@@ -0,0 +1 @@
+export { MapController } from './map-controller';
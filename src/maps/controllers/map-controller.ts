@@ -0,0 +1,80 @@
+import { inject } from 'inversify';
+import { BaseHttpController, controller, httpDelete, httpGet, httpPatch, httpPost, requestBody,
+  requestParam } from 'inversify-express-utils';
+import { Types } from 'mongoose';
+import { ensureAuthenticated, ensureRole } from '../../auth';
+import { GameMap } from '../models';
+import { MapService } from '../services';
+
+@controller('/maps')
+export class MapController extends BaseHttpController {
+
+  constructor(
+    @inject(MapService) private mapService: MapService,
+  ) {
+    super();
+  }
+
+  @httpGet('/')
+  public async getMaps() {
+    const maps = await this.mapService.getAllMaps();
+    return this.json(maps.map(m => m.toJSON()));
+  }
+
+  @httpGet('/:id')
+  public async getMap(@requestParam('id') mapId: string) {
+    if (!Types.ObjectId.isValid(mapId)) {
+      return this.json({ message: 'invalid id' }, 400);
+    }
+
+    const map = await this.mapService.getMap(mapId);
+    if (map) {
+      return this.json(map.toJSON());
+    } else {
+      return this.json({ message: 'no such map' }, 404);
+    }
+  }
+
+  @httpPost('/', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async addMap(@requestBody() map: Partial<GameMap>) {
+    if (!map) {
+      return this.json({ message: 'invalid map' }, 400);
+    }
+
+    try {
+      const ret = await this.mapService.addMap(map);
+      return this.json(ret.toJSON(), 201);
+    } catch (error) {
+      return this.json({ message: error.message }, 400);
+    }
+  }
+
+  @httpPatch('/:id', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async updateMap(@requestParam('id') mapId: string, @requestBody() changes: Partial<GameMap>) {
+    if (!Types.ObjectId.isValid(mapId)) {
+      return this.json({ message: 'invalid id' }, 400);
+    }
+
+    try {
+      const ret = await this.mapService.updateMap(mapId, changes || { });
+      return this.json(ret.toJSON());
+    } catch (error) {
+      return this.json({ message: error.message }, 400);
+    }
+  }
+
+  @httpDelete('/:id', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async removeMap(@requestParam('id') mapId: string) {
+    if (!Types.ObjectId.isValid(mapId)) {
+      return this.json({ message: 'invalid id' }, 400);
+    }
+
+    try {
+      await this.mapService.removeMap(mapId);
+      return this.statusCode(204);
+    } catch (error) {
+      return this.json({ message: error.message }, 400);
+    }
+  }
+
+}
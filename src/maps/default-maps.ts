@@ -0,0 +1,25 @@
+import { GameMap } from './models/game-map';
+
+/**
+ * Maps the catalogue is populated with when it is empty.
+ */
+export const defaultMaps: GameMap[] = [
+  { name: 'cp_badlands', gamemode: 'cp' },
+  { name: 'cp_granary', gamemode: 'cp' },
+  { name: 'cp_granary_pro_rc8', gamemode: 'cp' },
+  { name: 'cp_gullywash_final1', gamemode: 'cp' },
+  { name: 'cp_logjam_rc11', gamemode: 'cp' },
+  { name: 'cp_metalworks', gamemode: 'cp' },
+  { name: 'cp_process_final', gamemode: 'cp' },
+  { name: 'cp_prolands_rc2t', gamemode: 'cp' },
+  { name: 'cp_reckoner_rc2', gamemode: 'cp' },
+  { name: 'cp_snakewater_final1', gamemode: 'cp' },
+  { name: 'cp_steel', gamemode: 'cp' },
+  { name: 'cp_sunshine', gamemode: 'cp' },
+  { name: 'ctf_ballin_sky', gamemode: 'ctf' },
+  { name: 'koth_ashville_rc1', gamemode: 'koth' },
+  { name: 'koth_product_rcx', gamemode: 'koth' },
+  { name: 'pl_badwater_pro_v9', gamemode: 'pl' },
+  { name: 'pl_upward', gamemode: 'pl' },
+  { name: 'ultiduo_baloo_v2', gamemode: 'ultiduo' },
+];
@@ -0,0 +1,2 @@
+export * from './controllers';
+export * from './services';
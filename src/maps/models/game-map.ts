@@ -0,0 +1,28 @@
+import { getModelForClass, prop } from '@typegoose/typegoose';
+import { renameId } from '../../utils';
+
+export class GameMap {
+  @prop({ default: () => new Date() })
+  public addedAt?: Date;
+
+  @prop({ required: true, unique: true, trim: true })
+  public name!: string;
+
+  /* cp, koth, pl, ctf, etc. */
+  @prop({ required: true, trim: true })
+  public gamemode!: string;
+
+  /* Disabled maps are never offered in the map vote */
+  @prop({ default: true })
+  public enabled?: boolean;
+}
+
+export const gameMapModel = getModelForClass(GameMap, {
+  schemaOptions: {
+    toJSON: {
+      versionKey: false,
+      virtuals: true,
+      transform: renameId,
+    },
+  },
+});
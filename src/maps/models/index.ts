@@ -0,0 +1 @@
+export { GameMap, gameMapModel } from './game-map';
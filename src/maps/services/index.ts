@@ -0,0 +1 @@
+export { MapService } from './map-service';
@@ -0,0 +1,68 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { connect } from 'mongoose';
+import { gameMapModel } from '../models';
+import { MapService } from './map-service';
+
+describe('MapService', () => {
+  let mongod: MongoMemoryServer;
+  let service: MapService;
+
+  beforeAll(async () => {
+    mongod = new MongoMemoryServer();
+    const uri = await mongod.getConnectionString();
+    await connect(uri, { useNewUrlParser: true });
+  });
+
+  afterAll(async () => await mongod.stop());
+
+  beforeEach(async () => {
+    service = new MapService();
+    await service.initialize();
+  });
+
+  afterEach(async () => await gameMapModel.deleteMany({ }));
+
+  describe('#initialize()', () => {
+    it('should populate the empty catalogue', async () => {
+      expect(await gameMapModel.countDocuments()).toBeGreaterThan(0);
+      expect(service.exists('cp_badlands')).toBe(true);
+      expect(service.isEnabled('cp_badlands')).toBe(true);
+    });
+  });
+
+  describe('#addMap()', () => {
+    it('should add the map', async () => {
+      const map = await service.addMap({ name: 'cp_fake_rc1' });
+      expect(map.gamemode).toEqual('cp');
+      expect(map.enabled).toBe(true);
+      expect(service.exists('cp_fake_rc1')).toBe(true);
+    });
+
+    it('should deny duplicates', async () => {
+      await expectAsync(service.addMap({ name: 'cp_badlands' })).toBeRejected();
+    });
+
+    it('should deny invalid names', async () => {
+      await expectAsync(service.addMap({ name: 'cp_fake; quit' })).toBeRejected();
+    });
+  });
+
+  describe('#updateMap()', () => {
+    it('should disable the map', async () => {
+      const map = await gameMapModel.findOne({ name: 'cp_badlands' });
+      const spy = spyOn(service, 'emit');
+      await service.updateMap(map.id, { enabled: false });
+      expect(service.isEnabled('cp_badlands')).toBe(false);
+      expect(spy).toHaveBeenCalledWith('map_update', 'cp_badlands');
+    });
+  });
+
+  describe('#removeMap()', () => {
+    it('should remove the map from the catalogue', async () => {
+      const map = await gameMapModel.findOne({ name: 'cp_badlands' });
+      await service.removeMap(map.id);
+      expect(service.exists('cp_badlands')).toBe(false);
+      expect(await gameMapModel.findById(map.id)).toBeNull();
+    });
+  });
+});
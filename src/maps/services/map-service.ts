@@ -0,0 +1,107 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { EventEmitter } from 'events';
+import { postConstruct } from 'inversify';
+import { provide } from 'inversify-binding-decorators';
+import logger from '../../logger';
+import { defaultMaps } from '../default-maps';
+import { GameMap, gameMapModel } from '../models';
+
+// map names end up in rcon commands
+const mapNameRegex = /^[\w\-.\/]+$/;
+
+/**
+ * The catalogue of maps that can be played.
+ * A copy of the catalogue is kept in memory so other services can validate map names synchronously.
+ */
+@provide(MapService)
+export class MapService extends EventEmitter {
+
+  private catalogue = new Map<string, GameMap>();
+
+  public async getAllMaps(): Promise<Array<DocumentType<GameMap>>> {
+    return await gameMapModel.find().sort({ name: 1 });
+  }
+
+  public async getMap(mapId: string): Promise<DocumentType<GameMap>> {
+    return await gameMapModel.findById(mapId);
+  }
+
+  public exists(name: string): boolean {
+    return this.catalogue.has(name);
+  }
+
+  public isEnabled(name: string): boolean {
+    return !!this.catalogue.get(name)?.enabled;
+  }
+
+  public async addMap(map: Partial<GameMap>): Promise<DocumentType<GameMap>> {
+    if (typeof map.name !== 'string' || !mapNameRegex.test(map.name)) {
+      throw new Error('invalid map name');
+    }
+
+    if (this.exists(map.name)) {
+      throw new Error('this map is already in the catalogue');
+    }
+
+    const ret = await gameMapModel.create({
+      name: map.name,
+      gamemode: map.gamemode || map.name.split('_')[0],
+      enabled: map.enabled ?? true,
+    });
+    this.mapUpdated(ret);
+    return ret;
+  }
+
+  public async updateMap(mapId: string, changes: Partial<GameMap>): Promise<DocumentType<GameMap>> {
+    const map = await this.getMap(mapId);
+    if (!map) {
+      throw new Error('no such map');
+    }
+
+    if (changes.gamemode !== undefined) {
+      map.gamemode = changes.gamemode;
+    }
+
+    if (changes.enabled !== undefined) {
+      map.enabled = !!changes.enabled;
+    }
+
+    await map.save();
+    this.mapUpdated(map);
+    return map;
+  }
+
+  public async removeMap(mapId: string) {
+    const map = await this.getMap(mapId);
+    if (!map) {
+      throw new Error('no such map');
+    }
+
+    await map.remove();
+    this.catalogue.delete(map.name);
+    logger.info(`map ${map.name} removed from the catalogue`);
+    this.emit('map_update', map.name);
+  }
+
+  @postConstruct()
+  public async initialize() {
+    try {
+      if (await gameMapModel.estimatedDocumentCount() === 0) {
+        await gameMapModel.create(defaultMaps);
+        logger.info(`map catalogue populated with ${defaultMaps.length} maps`);
+      }
+
+      const maps = await gameMapModel.find().lean() as GameMap[];
+      maps.forEach(map => this.catalogue.set(map.name, map));
+      this.emit('map_update');
+    } catch (error) {
+      logger.error(`could not load the map catalogue (${error.message})`);
+    }
+  }
+
+  private mapUpdated(map: DocumentType<GameMap>) {
+    this.catalogue.set(map.name, map.toObject());
+    this.emit('map_update', map.name);
+  }
+
+}
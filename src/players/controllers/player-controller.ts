@@ -110,6 +110,26 @@ export class PlayerController {
     }
   }
 
+  @httpGet('/:id/skill/history', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async getPlayerSkillHistory(@requestParam('id') playerId: string, @response() res: Response) {
+    try {
+      const history = await this.playerSkillService.getSkillHistory(playerId);
+      return res.status(200).send(history.map(h => h.toJSON()));
+    } catch (error) {
+      return res.status(400).send({ message: error.message });
+    }
+  }
+
+  @httpGet('/:id/no_shows', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async getPlayerNoShows(@requestParam('id') playerId: string, @response() res: Response) {
+    try {
+      const noShows = await this.playerService.getNoShows(playerId);
+      return res.status(200).send(noShows);
+    } catch (error) {
+      return res.status(404).send({ message: error.message });
+    }
+  }
+
   @httpGet('/:id/bans', ensureAuthenticated, ensureRole('admin', 'super-user'))
   public async getPlayerBans(@requestParam('id') playerId: string, @response() res: Response) {
     try {
@@ -0,0 +1,12 @@
+import { prop } from '@typegoose/typegoose';
+
+/**
+ * A game the player was supposed to play, but never joined the server.
+ */
+export class NoShow {
+  @prop({ required: true })
+  public gameId!: string;
+
+  @prop({ default: () => new Date() })
+  public at?: Date;
+}
@@ -0,0 +1,39 @@
+import { getModelForClass, prop, Ref } from '@typegoose/typegoose';
+import { Game } from '../../games/models/game';
+import { renameId } from '../../utils';
+import { Player } from './player';
+
+/**
+ * A single entry in the player's skill history.
+ */
+export class PlayerSkillChange {
+
+  @prop({ ref: 'Player', required: true, index: true })
+  public player!: Ref<Player>;
+
+  @prop({ ref: 'Game', index: true })
+  public game?: Ref<Game>;
+
+  @prop({ required: true })
+  public gameClass!: string;
+
+  @prop({ required: true })
+  public oldSkill!: number;
+
+  @prop({ required: true })
+  public newSkill!: number;
+
+  @prop({ default: () => new Date() })
+  public at?: Date;
+
+}
+
+export const playerSkillChangeModel = getModelForClass(PlayerSkillChange, {
+  schemaOptions: {
+    toJSON: {
+      versionKey: false,
+      virtuals: true,
+      transform: renameId,
+    },
+  },
+});
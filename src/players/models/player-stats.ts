@@ -1,5 +1,19 @@
+export interface PlayerStatsTotals {
+  kills: number;
+  deaths: number;
+  assists: number;
+  damage: number;
+  heals: number;
+  ubers: number;
+  drops: number;
+}
+
 export interface PlayerStats {
   player: string;
   gamesPlayed: number;
   classesPlayed: { [gameClass: string]: number };
+  // sums of in-game stats of all the games that have them
+  totals: PlayerStatsTotals;
+  // the totals divided by the number of games that have in-game stats
+  perGame: PlayerStatsTotals;
 }
@@ -1,8 +1,15 @@
-import { getModelForClass, prop } from '@typegoose/typegoose';
+import { arrayProp, DocumentType, getModelForClass, prop } from '@typegoose/typegoose';
 import { Schema } from 'mongoose';
 import { renameId } from '../../utils';
+import { NoShow } from './no-show';
 import { PlayerRole } from './player-role';
 
+function removeNoShows(doc: DocumentType<Player>, ret: any) {
+  ret = renameId(doc, ret);
+  delete ret.noShows;
+  return ret;
+}
+
 export class Player {
   public _id: Schema.Types.ObjectId;
 
@@ -26,6 +33,10 @@ export class Player {
 
   @prop()
   public etf2lProfileId?: number;
+
+  /* Games the player did not show up for; visible to admins only */
+  @arrayProp({ items: NoShow, _id: false })
+  public noShows?: NoShow[];
 }
 
 export const playerModel = getModelForClass(Player, {
@@ -33,7 +44,7 @@ export const playerModel = getModelForClass(Player, {
     toJSON: {
       versionKey: false,
       virtuals: true,
-      transform: renameId,
+      transform: removeNoShows,
     },
   },
 });
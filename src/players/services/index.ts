@@ -4,3 +4,4 @@ export { PlayerBansService } from './player-bans-service';
 export { PlayerStatsService } from './player-stats-service';
 export { OnlinePlayerService } from './online-player-service';
 export { HallOfFameService } from './hall-of-fame-service';
+export { SkillRatingService } from './skill-rating-service';
@@ -1,6 +1,8 @@
 import { DocumentType } from '@typegoose/typegoose';
 import { provide } from 'inversify-binding-decorators';
 import { Game, gameModel } from '../../games/models';
+import { NoShow } from '../models/no-show';
+import { playerModel } from '../models/player';
 
 @provide(PlayerService)
 export class PlayerService {
@@ -9,4 +11,27 @@ export class PlayerService {
     return await gameModel.find({ players: playerId }).sort({ launchedAt: -1 });
   }
 
+  public async getNoShows(playerId: string): Promise<NoShow[]> {
+    const player = await playerModel.findById(playerId);
+    if (!player) {
+      throw new Error('no such player');
+    }
+
+    return player.noShows ?? [];
+  }
+
+  /**
+   * Remember the player did not join the given game.
+   * @returns How many games the player has not shown up for so far.
+   */
+  public async recordNoShow(playerId: string, gameId: string): Promise<number> {
+    const player = await playerModel.findByIdAndUpdate(playerId,
+      { $push: { noShows: { gameId, at: new Date() } } }, { new: true });
+    if (!player) {
+      throw new Error('no such player');
+    }
+
+    return player.noShows.length;
+  }
+
 }
@@ -9,11 +9,7 @@ import { playerSkillModel } from '../models/player-skill';
 import { PlayerSkillService } from './player-skill-service';
 
 class QueueConfigServiceStub {
-  public queueConfig = {
-    classes: [
-      { name: 'soldier', count: 1 },
-    ],
-  };
+  public gameClasses = ['soldier'];
 }
 
 describe('PlayerSkillService', () => {
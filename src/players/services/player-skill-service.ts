@@ -1,14 +1,14 @@
 import { DocumentType } from '@typegoose/typegoose';
 import { inject } from 'inversify';
 import { provide } from 'inversify-binding-decorators';
-import { GameClass } from '../../queue/models/game-class';
 import { QueueConfigService } from '../../queue/services/queue-config-service';
 import { PlayerSkill, playerSkillModel } from '../models/player-skill';
+import { PlayerSkillChange, playerSkillChangeModel } from '../models/player-skill-change';
 
-async function initializeSkill(playerId: string, classes: GameClass[]): Promise<DocumentType<PlayerSkill>> {
+async function initializeSkill(playerId: string, gameClasses: string[]): Promise<DocumentType<PlayerSkill>> {
   return await playerSkillModel.create({
     player: playerId,
-    skill: classes.reduce((map, curr) => { map[curr.name] = 1; return map; }, { }),
+    skill: gameClasses.reduce((map, curr) => { map[curr] = 1; return map; }, { }),
   });
 }
 
@@ -19,7 +19,11 @@ export class PlayerSkillService {
 
   public async getPlayerSkill(playerId: string): Promise<DocumentType<PlayerSkill>> {
     const skill = await playerSkillModel.findOne({ player: playerId });
-    return skill ? skill : initializeSkill(playerId, this.queueConfigService.queueConfig.classes);
+    return skill ? skill : initializeSkill(playerId, this.queueConfigService.gameClasses);
+  }
+
+  public async getSkillHistory(playerId: string): Promise<Array<DocumentType<PlayerSkillChange>>> {
+    return await playerSkillChangeModel.find({ player: playerId }).sort({ at: -1 });
   }
 
 }
@@ -3,7 +3,9 @@ import { provide } from 'inversify-binding-decorators';
 import { ObjectId } from 'mongodb';
 import { gameModel } from '../../games/models/game';
 import { QueueConfigService } from '../../queue/services/queue-config-service';
-import { PlayerStats } from '../models/player-stats';
+import { PlayerStats, PlayerStatsTotals } from '../models/player-stats';
+
+const statNames: Array<keyof PlayerStatsTotals> = [ 'kills', 'deaths', 'assists', 'damage', 'heals', 'ubers', 'drops' ];
 
 @provide(PlayerStatsService)
 export class PlayerStatsService {
@@ -15,8 +17,7 @@ export class PlayerStatsService {
   public async getPlayerStats(playerId: string): Promise<PlayerStats> {
     const allGames = await gameModel.find({ players: playerId, state: 'ended' });
     const gamesPlayed = allGames.length;
-    const classesPlayed = this.queueConfigService.queueConfig.classes
-      .map(cls => cls.name)
+    const classesPlayed = this.queueConfigService.gameClasses
       .reduce((prev, gameClass) => {
         prev[gameClass] = allGames
           .filter(g => !!g.slots.find(s => s.playerId === playerId && s.gameClass === gameClass))
@@ -24,7 +25,19 @@ export class PlayerStatsService {
         return prev;
       }, { });
 
-    return { player: playerId, gamesPlayed, classesPlayed };
+    const playerStats = allGames
+      .map(g => g.playerStats?.find(s => s.playerId === playerId))
+      .filter(stats => !!stats);
+    const totals = statNames.reduce((prev, stat) => {
+      prev[stat] = playerStats.reduce((sum, stats) => sum + stats[stat], 0);
+      return prev;
+    }, { } as PlayerStatsTotals);
+    const perGame = statNames.reduce((prev, stat) => {
+      prev[stat] = playerStats.length ? totals[stat] / playerStats.length : 0;
+      return prev;
+    }, { } as PlayerStatsTotals);
+
+    return { player: playerId, gamesPlayed, classesPlayed, totals, perGame };
   }
 
 }
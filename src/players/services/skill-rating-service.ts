@@ -0,0 +1,72 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { inject } from 'inversify';
+import { provide } from 'inversify-binding-decorators';
+import { Game, gameModel } from '../../games/models/game';
+import logger from '../../logger';
+import { QueueConfigService } from '../../queue/services/queue-config-service';
+import { playerSkillChangeModel } from '../models/player-skill-change';
+import { ratePlayers } from '../utils/rate-players';
+import { PlayerSkillService } from './player-skill-service';
+
+/**
+ * Updates player skills based on game results for queues that have the automatic skill rating enabled.
+ */
+@provide(SkillRatingService)
+export class SkillRatingService {
+
+  constructor(
+    @inject(QueueConfigService) private queueConfigService: QueueConfigService,
+    @inject(PlayerSkillService) private playerSkillService: PlayerSkillService,
+  ) { }
+
+  /**
+   * Rate all players of the given game.
+   * Each game is rated only once.
+   * @param game An ended game with the score of each team known.
+   */
+  public async rateGame(game: DocumentType<Game>) {
+    if (!game.queueId || !this.queueConfigService.queueIds.includes(game.queueId)) {
+      return;
+    }
+
+    if (this.queueConfigService.getQueueConfig(game.queueId).skillRatingMode !== 'automatic') {
+      return;
+    }
+
+    const { nModified } = await gameModel.updateOne({ _id: game._id, rated: { $ne: true } }, { rated: true });
+    if (nModified === 0) {
+      logger.warn(`game #${game.number} has already been rated`);
+      return;
+    }
+
+    const results = this.resultsOf(game);
+    const slots = game.slots.filter(s => s.status !== 'replaced');
+    const skills = await Promise.all(slots.map(s => this.playerSkillService.getPlayerSkill(s.playerId)));
+    const changes = ratePlayers(slots.map((s, i) => ({
+      playerId: s.playerId,
+      teamId: s.teamId,
+      gameClass: s.gameClass,
+      skill: skills[i].skill.get(s.gameClass) ?? 1,
+    })), results);
+
+    await Promise.all(changes.map(async (change, i) => {
+      skills[i].skill.set(change.gameClass, change.newSkill);
+      await skills[i].save();
+    }));
+
+    await playerSkillChangeModel.create(changes.map(({ playerId, ...change }) =>
+      ({ player: playerId, game: game._id, ...change })));
+    logger.info(`skills of ${changes.length} players updated after game #${game.number}`);
+  }
+
+  private resultsOf(game: DocumentType<Game>): { [teamId: string]: number } {
+    const scores = [ ...game.score.entries() ];
+    const best = Math.max(...scores.map(([ , score ]) => score));
+    const winners = scores.filter(([ , score ]) => score === best);
+    return scores.reduce((results, [ teamId, score ]) => {
+      results[teamId] = score === best ? 1 / winners.length : 0;
+      return results;
+    }, { });
+  }
+
+}
@@ -0,0 +1,35 @@
+import { ratePlayers, RatedSlot } from './rate-players';
+
+describe('ratePlayers()', () => {
+  const slots: RatedSlot[] = [
+    { playerId: 'FAKE_SOLDIER_1', teamId: '0', gameClass: 'soldier', skill: 3 },
+    { playerId: 'FAKE_MEDIC_1', teamId: '0', gameClass: 'medic', skill: 2 },
+    { playerId: 'FAKE_SOLDIER_2', teamId: '1', gameClass: 'soldier', skill: 3 },
+    { playerId: 'FAKE_MEDIC_2', teamId: '1', gameClass: 'medic', skill: 6 },
+  ];
+
+  it('should raise the winners and lower the losers', () => {
+    const changes = ratePlayers(slots, { 0: 1, 1: 0 });
+    const change = (playerId: string) => changes.find(c => c.playerId === playerId);
+    expect(change('FAKE_SOLDIER_1').newSkill).toBeGreaterThan(3);
+    expect(change('FAKE_SOLDIER_2').newSkill).toBeLessThan(3);
+    expect(change('FAKE_SOLDIER_1').newSkill - 3).toBeCloseTo(3 - change('FAKE_SOLDIER_2').newSkill);
+  });
+
+  it('should reward beating stronger opponents more', () => {
+    const changes = ratePlayers(slots, { 0: 1, 1: 0 });
+    const soldierGain = changes.find(c => c.playerId === 'FAKE_SOLDIER_1').newSkill - 3;
+    const medicGain = changes.find(c => c.playerId === 'FAKE_MEDIC_1').newSkill - 2;
+    expect(medicGain).toBeGreaterThan(soldierGain);
+  });
+
+  it('should not change equal skills on a draw', () => {
+    const changes = ratePlayers(slots, { 0: 0.5, 1: 0.5 });
+    expect(changes.find(c => c.playerId === 'FAKE_SOLDIER_1').newSkill).toEqual(3);
+  });
+
+  it('should keep the skill if there is nobody to compare to', () => {
+    const changes = ratePlayers([ slots[0] ], { 0: 1, 1: 0 });
+    expect(changes).toEqual([ { playerId: 'FAKE_SOLDIER_1', gameClass: 'soldier', oldSkill: 3, newSkill: 3 } ]);
+  });
+});
@@ -0,0 +1,46 @@
+export interface RatedSlot {
+  playerId: string;
+  teamId: string;
+  gameClass: string;
+  skill: number;
+}
+
+export interface SkillChange {
+  playerId: string;
+  gameClass: string;
+  oldSkill: number;
+  newSkill: number;
+}
+
+// how much a single game can move the skill at most
+const kFactor = 0.5;
+// skill difference that makes the better player 10 times more likely to win
+const scale = 4;
+
+function expectedResult(skill: number, opponentSkill: number): number {
+  return 1 / (1 + Math.pow(10, (opponentSkill - skill) / scale));
+}
+
+/**
+ * Elo-like rating of each player's class skill.
+ * Every player is rated against the players of the same class in the other team.
+ * @param slots Players of the game with their current skills.
+ * @param results Result for each team: 1 for a win, 0.5 for a draw and 0 for a loss.
+ */
+export function ratePlayers(slots: RatedSlot[], results: { [teamId: string]: number }): SkillChange[] {
+  return slots.map(slot => {
+    const opponents = slots.filter(s => s.gameClass === slot.gameClass && s.teamId !== slot.teamId);
+    if (opponents.length === 0 || results[slot.teamId] === undefined) {
+      return { playerId: slot.playerId, gameClass: slot.gameClass, oldSkill: slot.skill, newSkill: slot.skill };
+    }
+
+    const opponentSkill = opponents.reduce((prev, curr) => prev + curr.skill, 0) / opponents.length;
+    const change = kFactor * (results[slot.teamId] - expectedResult(slot.skill, opponentSkill));
+    return {
+      playerId: slot.playerId,
+      gameClass: slot.gameClass,
+      oldSkill: slot.skill,
+      newSkill: Math.round((slot.skill + change) * 1000) / 1000,
+    };
+  });
+}
@@ -1,13 +1,16 @@
 import { DocumentType } from '@typegoose/typegoose';
 import { inject, postConstruct } from 'inversify';
-import { BaseHttpController, controller, httpGet } from 'inversify-express-utils';
+import { BaseHttpController, controller, httpGet, httpPut, interfaces, requestBody,
+  requestParam } from 'inversify-express-utils';
+import { ensureAuthenticated, ensureRole } from '../../auth';
 import { WsProviderService } from '../../core';
 import { gameModel } from '../../games/models/game';
 import logger from '../../logger';
 import { Player } from '../../players/models/player';
 import { OnlinePlayerService } from '../../players/services/online-player-service';
-import { Tf2Map } from '../models/tf2-map';
-import { GameLauncherService, MapVoteService, QueueConfigService, QueueNotificationsService, QueueService } from '../services';
+import { QueueConfig } from '../models/queue-config';
+import { GameLauncherService, MapVoteService, QueueConfigService, QueueNotificationsService, QueueService,
+  QueueSnapshotService } from '../services';
 
 @controller('/queue')
 export class QueueController extends BaseHttpController {
@@ -19,35 +22,43 @@ export class QueueController extends BaseHttpController {
   @inject(MapVoteService) private mapVoteService: MapVoteService;
   @inject(GameLauncherService) private gameLauncherService: GameLauncherService; // don't remove
   @inject(QueueNotificationsService) private queueNotificationsService: QueueNotificationsService; // don't remove
+  @inject(QueueSnapshotService) private queueSnapshotService: QueueSnapshotService; // don't remove
 
   @httpGet('/')
   public async index() {
-    return this.json({
-      config: this.queueConfigService.queueConfig,
-      state: this.queueService.state,
-      slots: this.queueService.slots,
-      mapVoteResults: this.mapVoteService.results,
-    });
+    return this.json(this.queueService.allQueues.map(queue => ({
+      id: queue.id,
+      config: this.queueConfigService.getQueueConfig(queue.id),
+      state: queue.state,
+      slots: queue.slots,
+      mapVoteResults: this.mapVoteService.getResults(queue.id),
+    })));
   }
 
   @httpGet('/config')
-  public async getConfig() {
-    return this.json(this.queueConfigService.queueConfig);
+  public async getConfigs() {
+    return this.json(Object.fromEntries(this.queueConfigService.queueConfigs));
   }
 
-  @httpGet('/state')
-  public async getStats() {
-    return this.json(this.queueService.state);
+  @httpGet('/config/:queueId')
+  public async getConfig(@requestParam('queueId') queueId: string) {
+    return this.withQueue(queueId, () => this.json(this.queueConfigService.getQueueConfig(queueId)));
   }
 
-  @httpGet('/slots')
-  public async getSlots() {
-    return this.json(this.queueService.slots);
-  }
+  @httpPut('/config/:queueId', ensureAuthenticated, ensureRole('admin', 'super-user'))
+  public async updateConfig(@requestParam('queueId') queueId: string, @requestBody() changes: Partial<QueueConfig>) {
+    return this.withQueue(queueId, async () => {
+      if (!changes) {
+        return this.json({ message: 'invalid queue config' }, 400);
+      }
 
-  @httpGet('/map_vote_results')
-  public async getMapVoteResults() {
-    return this.json(this.mapVoteService.results);
+      try {
+        const queueConfig = await this.queueService.updateQueueConfig(queueId, changes);
+        return this.json(queueConfig);
+      } catch (error) {
+        return this.json({ message: error.message }, 400);
+      }
+    });
   }
 
   @httpGet('/substitute_requests')
@@ -58,15 +69,44 @@ export class QueueController extends BaseHttpController {
     return this.json(ret);
   }
 
+  @httpGet('/:queueId')
+  public async getQueue(@requestParam('queueId') queueId: string) {
+    return this.withQueue(queueId, () => {
+      const queue = this.queueService.getQueue(queueId);
+      return this.json({
+        id: queue.id,
+        config: this.queueConfigService.getQueueConfig(queueId),
+        state: queue.state,
+        slots: queue.slots,
+        mapVoteResults: this.mapVoteService.getResults(queueId),
+      });
+    });
+  }
+
+  @httpGet('/:queueId/state')
+  public async getState(@requestParam('queueId') queueId: string) {
+    return this.withQueue(queueId, () => this.json(this.queueService.getQueue(queueId).state));
+  }
+
+  @httpGet('/:queueId/slots')
+  public async getSlots(@requestParam('queueId') queueId: string) {
+    return this.withQueue(queueId, () => this.json(this.queueService.getQueue(queueId).slots));
+  }
+
+  @httpGet('/:queueId/map_vote_results')
+  public async getMapVoteResults(@requestParam('queueId') queueId: string) {
+    return this.withQueue(queueId, () => this.json(this.mapVoteService.getResults(queueId)));
+  }
+
   @postConstruct()
   public setupWs() {
     this.wsProvider.ws.on('connection', socket => {
       if (socket.request.user.logged_in) {
         const player = socket.request.user as DocumentType<Player>;
 
-        socket.on('join queue', async (slotId: number, done) => {
+        socket.on('join queue', async (queueId: string, slotId: number, done) => {
           try {
-            const slots = await this.queueService.join(slotId, player.id, socket);
+            const slots = await this.queueService.join(queueId, slotId, player.id, socket);
             done({ value: slots });
           } catch (error) {
             done({ error: error.message });
@@ -100,7 +140,7 @@ export class QueueController extends BaseHttpController {
           }
         });
 
-        socket.on('vote for map', (map: Tf2Map, done) => {
+        socket.on('vote for map', (map: string, done) => {
           try {
             this.mapVoteService.voteForMap(player.id, map);
             done({ value: map });
@@ -120,4 +160,16 @@ export class QueueController extends BaseHttpController {
     });
   }
 
+  /**
+   * Responds with 404 unless the given queue exists; runs the handler otherwise.
+   */
+  private async withQueue(queueId: string,
+                          handler: () => interfaces.IHttpActionResult | Promise<interfaces.IHttpActionResult>) {
+    if (!this.queueConfigService.queueIds.includes(queueId)) {
+      return this.json({ message: 'no such queue' }, 404);
+    }
+
+    return await handler();
+  }
+
 }
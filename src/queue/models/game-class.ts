@@ -1,4 +1,13 @@
-export interface GameClass {
-  name: string;
-  count: number;
+import { prop } from '@typegoose/typegoose';
+
+export class GameClass {
+  @prop({ required: true })
+  public name!: string;
+
+  @prop({ required: true })
+  public count!: number;
+
+  /* How much the skill of this class counts when balancing the teams by class weights */
+  @prop({ default: 1 })
+  public weight?: number;
 }
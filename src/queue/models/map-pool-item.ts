@@ -0,0 +1,18 @@
+import { arrayProp, prop } from '@typegoose/typegoose';
+
+export class MapPoolItem {
+  @prop({ required: true })
+  public name!: string;
+
+  /* How the map should be presented to the players; defaults to the map name */
+  @prop()
+  public displayName?: string;
+
+  /* Configs to execute when the map is played */
+  @arrayProp({ items: String })
+  public execConfigs: string[];
+
+  /* How likely the map is to show up in the map vote compared to the other maps in the pool */
+  @prop({ default: 1 })
+  public weight: number;
+}
@@ -1,24 +1,69 @@
+import { arrayProp, getModelForClass, prop } from '@typegoose/typegoose';
+import { BalancingStrategyName } from '../../games/utils/balancing-strategies';
 import { GameClass } from './game-class';
-import { Tf2Map } from './tf2-map';
+import { MapPoolItem } from './map-pool-item';
+
+export class QueueConfig {
+  /* Id of the queue this config applies to */
+  @prop({ required: true, unique: true })
+  public queueId!: string;
 
-export interface QueueConfig {
   /* This is always 2 */
-  teamCount: 2;
+  @prop({ default: 2 })
+  public teamCount: 2;
 
   /* List of classes that play the given gamemode */
-  classes: GameClass[];
+  @arrayProp({ items: GameClass, _id: false })
+  public classes: GameClass[];
 
   /* How much time does a player have to hit the ready up button */
-  readyUpTimeout: number; // milliseconds
+  @prop({ required: true })
+  public readyUpTimeout: number; // milliseconds
 
   /* How much time will the queue be in the ready up stage before going back to waiting stage if less than 12 players
     are ready */
-  queueReadyTimeout: number; // milliseconds
+  @prop({ required: true })
+  public queueReadyTimeout: number; // milliseconds
 
   /* Map pool */
-  maps: Tf2Map[];
+  @arrayProp({ items: MapPoolItem, _id: false })
+  public maps: MapPoolItem[];
+
+  /* How many maps are drawn from the pool for each map vote */
+  @prop({ required: true, default: 3 })
+  public mapVoteOptionCount: number;
+
+  /* How many of the most recently played maps are left out of the map vote */
+  @prop({ required: true, default: 1 })
+  public mapCooldown: number;
+
+  /* Players of these classes can mark another player as a friend to be put in the same team with */
+  @arrayProp({ items: String })
+  public friendMarkingClasses: string[];
+
+  /* How many players in each team can have a friend */
+  @prop({ required: true, default: 1 })
+  public maxFriendsPerTeam: number;
 
-  /* What configs to execute */
-  // fixme make this per-map instead of per-gamemode
-  execConfigs: string[];
+  /* How the teams are balanced */
+  @prop({ required: true, default: 'average-skill' })
+  public balancingStrategy: BalancingStrategyName;
+
+  /* Whether player skills are set by admins only or updated automatically after each game */
+  @prop({ required: true, default: 'manual' })
+  public skillRatingMode: 'manual' | 'automatic';
+
+  /* How much time players have to join the server once the game is launched; 0 means no limit */
+  @prop({ required: true, default: 0 })
+  public joinGameTimeout: number; // milliseconds
+
+  /* Regions the game servers of this queue may be in; no regions means any server */
+  @arrayProp({ items: String })
+  public gameServerRegions: string[];
+
+  /* Tags every game server of this queue needs to have */
+  @arrayProp({ items: String })
+  public gameServerTags: string[];
 }
+
+export const queueConfigModel = getModelForClass(QueueConfig);
@@ -1,7 +1,18 @@
-export interface QueueSlot {
-  id: number;
-  gameClass: string;
-  playerId?: string;
-  playerReady: boolean;
-  friend?: string;
+import { prop } from '@typegoose/typegoose';
+
+export class QueueSlot {
+  @prop({ required: true })
+  public id!: number;
+
+  @prop({ required: true })
+  public gameClass!: string;
+
+  @prop()
+  public playerId?: string;
+
+  @prop({ default: false })
+  public playerReady!: boolean;
+
+  @prop()
+  public friend?: string;
 }
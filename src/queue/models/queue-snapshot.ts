@@ -0,0 +1,22 @@
+import { arrayProp, getModelForClass, prop } from '@typegoose/typegoose';
+import { QueueSlot } from './queue-slot';
+import { QueueState } from './queue-state';
+
+/**
+ * The last known state of a queue, so that it survives a restart.
+ */
+export class QueueSnapshot {
+  @prop({ required: true, unique: true })
+  public queueId!: string;
+
+  @arrayProp({ items: QueueSlot, _id: false })
+  public slots: QueueSlot[];
+
+  @prop({ default: 'waiting' })
+  public state: QueueState;
+
+  @prop({ default: () => new Date() })
+  public savedAt?: Date;
+}
+
+export const queueSnapshotModel = getModelForClass(QueueSnapshot);
@@ -0,0 +1,8 @@
+import { QueueSlot } from './queue-slot';
+import { QueueState } from './queue-state';
+
+export interface Queue {
+  id: string;
+  slots: QueueSlot[];
+  state: QueueState;
+}
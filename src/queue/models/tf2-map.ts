@@ -1,16 +0,0 @@
-// a selection of valid Team Fortress 2 competitive maps
-export type Tf2Map =
-  | 'cp_granary'
-  | 'cp_granary_pro_rc8'
-  | 'cp_gullywash_final1'
-  | 'cp_logjam_rc11'
-  | 'cp_metalworks'
-  | 'cp_process_final'
-  | 'cp_badlands'
-  | 'cp_prolands_rc2t'
-  | 'cp_snakewater_final1'
-  | 'cp_sunshine'
-  | 'koth_product_rcx'
-  | 'ctf_ballin_sky'
-  | 'cp_reckoner_rc2'
-  ;
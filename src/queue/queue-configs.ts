@@ -1,6 +1,10 @@
 import { QueueConfig } from './models/queue-config';
 
-export const queueConfigs: { [name: string]: QueueConfig } = {
+/**
+ * Default queue configs. Each config is stored in the database the first time its queue is run; from then on
+ * admins can modify it at runtime.
+ */
+export const queueConfigs: { [queueId: string]: Omit<QueueConfig, 'queueId'> } = {
   'test': {
     teamCount: 2,
     classes: [
@@ -8,29 +12,49 @@ export const queueConfigs: { [name: string]: QueueConfig } = {
     ],
     readyUpTimeout: 10 * 1000, // 10 seconds
     queueReadyTimeout: 20 * 1000, // 20 seconds
-    maps: [ 'cp_process_final', 'cp_badlands', 'cp_sunshine' ],
-    execConfigs: [],
+    maps: [
+      { name: 'cp_process_final', execConfigs: [], weight: 1 },
+      { name: 'cp_badlands', execConfigs: [], weight: 1 },
+      { name: 'cp_sunshine', execConfigs: [], weight: 1 },
+    ],
+    mapVoteOptionCount: 3,
+    mapCooldown: 1,
+    friendMarkingClasses: [],
+    maxFriendsPerTeam: 0,
+    balancingStrategy: 'average-skill',
+    skillRatingMode: 'manual',
+    joinGameTimeout: 5 * 60 * 1000, // 5 minutes
+    gameServerRegions: [],
+    gameServerTags: [],
   },
   '6v6': {
     teamCount: 2,
     classes: [
       { name: 'scout', count: 2 },
       { name: 'soldier', count: 2 },
-      { name: 'demoman', count: 1 },
-      { name: 'medic', count: 1 },
+      { name: 'demoman', count: 1, weight: 1.5 },
+      { name: 'medic', count: 1, weight: 2 },
     ],
     readyUpTimeout: 40 * 1000, // 40 seconds
     queueReadyTimeout: 60 * 1000, // 1 minute
     maps: [
-      'cp_process_final',
-      'cp_snakewater_final1',
-      'cp_sunshine',
-      'cp_granary_pro_rc8',
-      'cp_gullywash_final1',
-      'cp_reckoner_rc2',
-      'cp_prolands_rc2t',
-    ],
-    execConfigs: ['etf2l_6v6_5cp'],
+      { name: 'cp_process_final', execConfigs: ['etf2l_6v6_5cp'], weight: 1 },
+      { name: 'cp_snakewater_final1', execConfigs: ['etf2l_6v6_5cp'], weight: 1 },
+      { name: 'cp_sunshine', execConfigs: ['etf2l_6v6_5cp'], weight: 1 },
+      { name: 'cp_granary_pro_rc8', execConfigs: ['etf2l_6v6_5cp'], weight: 1 },
+      { name: 'cp_gullywash_final1', execConfigs: ['etf2l_6v6_5cp'], weight: 1 },
+      { name: 'cp_reckoner_rc2', execConfigs: ['etf2l_6v6_5cp'], weight: 1 },
+      { name: 'cp_prolands_rc2t', execConfigs: ['etf2l_6v6_5cp'], weight: 1 },
+    ],
+    mapVoteOptionCount: 3,
+    mapCooldown: 1,
+    friendMarkingClasses: [ 'medic' ],
+    maxFriendsPerTeam: 1,
+    balancingStrategy: 'average-skill',
+    skillRatingMode: 'manual',
+    joinGameTimeout: 5 * 60 * 1000, // 5 minutes
+    gameServerRegions: [],
+    gameServerTags: [],
   },
   'bball': {
     teamCount: 2,
@@ -40,8 +64,69 @@ export const queueConfigs: { [name: string]: QueueConfig } = {
     readyUpTimeout: 40 * 1000,
     queueReadyTimeout: 60 * 1000,
     maps: [
-      'ctf_ballin_sky',
+      { name: 'ctf_ballin_sky', execConfigs: ['etf2l_bball', 'instant_spawns'], weight: 1 },
+    ],
+    mapVoteOptionCount: 3,
+    mapCooldown: 0,
+    friendMarkingClasses: [],
+    maxFriendsPerTeam: 0,
+    balancingStrategy: 'average-skill',
+    skillRatingMode: 'manual',
+    joinGameTimeout: 5 * 60 * 1000, // 5 minutes
+    gameServerRegions: [],
+    gameServerTags: [],
+  },
+  '9v9': {
+    teamCount: 2,
+    classes: [
+      { name: 'scout', count: 1 },
+      { name: 'soldier', count: 1 },
+      { name: 'pyro', count: 1 },
+      { name: 'demoman', count: 1, weight: 1.5 },
+      { name: 'heavyweapons', count: 1 },
+      { name: 'engineer', count: 1 },
+      { name: 'medic', count: 1, weight: 2 },
+      { name: 'sniper', count: 1 },
+      { name: 'spy', count: 1 },
+    ],
+    readyUpTimeout: 60 * 1000, // 1 minute
+    queueReadyTimeout: 90 * 1000, // 1.5 minutes
+    maps: [
+      { name: 'pl_upward', execConfigs: ['etf2l_9v9_stopwatch'], weight: 1 },
+      { name: 'pl_badwater_pro_v9', execConfigs: ['etf2l_9v9_stopwatch'], weight: 1 },
+      { name: 'koth_product_rcx', execConfigs: ['etf2l_9v9_koth'], weight: 1 },
+      { name: 'cp_steel', execConfigs: ['etf2l_9v9_stopwatch'], weight: 1 },
+      { name: 'koth_ashville_rc1', execConfigs: ['etf2l_9v9_koth'], weight: 1 },
+    ],
+    mapVoteOptionCount: 3,
+    mapCooldown: 1,
+    friendMarkingClasses: [ 'medic', 'demoman' ],
+    maxFriendsPerTeam: 2,
+    balancingStrategy: 'average-skill',
+    skillRatingMode: 'manual',
+    joinGameTimeout: 5 * 60 * 1000, // 5 minutes
+    gameServerRegions: [],
+    gameServerTags: [],
+  },
+  'ultiduo': {
+    teamCount: 2,
+    classes: [
+      { name: 'soldier', count: 1 },
+      { name: 'medic', count: 1 },
+    ],
+    readyUpTimeout: 40 * 1000,
+    queueReadyTimeout: 60 * 1000,
+    maps: [
+      { name: 'ultiduo_baloo_v2', execConfigs: ['etf2l_ultiduo'], weight: 1 },
     ],
-    execConfigs: ['etf2l_bball', 'instant_spawns'],
+    mapVoteOptionCount: 3,
+    mapCooldown: 0,
+    friendMarkingClasses: [ 'medic' ],
+    maxFriendsPerTeam: 1,
+    balancingStrategy: 'average-skill',
+    skillRatingMode: 'manual',
+    joinGameTimeout: 5 * 60 * 1000, // 5 minutes
+    gameServerRegions: [],
+    gameServerTags: [],
   },
 };
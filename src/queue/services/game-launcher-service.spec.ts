@@ -8,12 +8,13 @@ import { QueueConfigService } from './queue-config-service';
 import { QueueService } from './queue-service';
 
 const gameServiceStub = {
-  create: (queueSlots, queueConfig, map) => null,
+  create: (queueId, queueSlots, queueConfig, map, mapVoteResults) => null,
 };
 
 class QueueServiceStub extends EventEmitter {
   public slots: QueueSlot[] = [];
-  public reset() { }
+  public getQueue(queueId: string) { return { id: queueId, slots: this.slots, state: 'launching' }; }
+  public reset(queueId: string) { }
 }
 
 const queueServiceStub = new QueueServiceStub();
@@ -22,10 +23,13 @@ const queueConfigServiceStub = {
   queueConfig: {
 
   },
+  getQueueConfig(queueId: string) { return this.queueConfig; },
 };
 
 const mapVoteServiceStub = {
-  getWinner: () => 'cp_fake_rc1',
+  getResults: (queueId: string) => [ { map: 'cp_fake_rc1', voteCount: 1 }, { map: 'cp_fake_rc2', voteCount: 0 } ],
+  getWinner: async (queueId: string) => 'cp_fake_rc1',
+  reset: async (queueId: string) => null,
 };
 
 describe('GameLauncherService', () => {
@@ -34,9 +38,9 @@ describe('GameLauncherService', () => {
 
   beforeAll(() => {
     container.bind(GameService).toConstantValue(gameServiceStub as GameService);
-    container.bind(QueueService).toConstantValue(queueServiceStub as QueueService);
-    container.bind(QueueConfigService).toConstantValue(queueConfigServiceStub as QueueConfigService);
-    container.bind(MapVoteService).toConstantValue(mapVoteServiceStub as MapVoteService);
+    container.bind(QueueService).toConstantValue(queueServiceStub as unknown as QueueService);
+    container.bind(QueueConfigService).toConstantValue(queueConfigServiceStub as unknown as QueueConfigService);
+    container.bind(MapVoteService).toConstantValue(mapVoteServiceStub as unknown as MapVoteService);
   });
 
   beforeEach(() => service = container.resolve(GameLauncherService));
@@ -44,21 +48,25 @@ describe('GameLauncherService', () => {
   it('should launch the game once its ready', async () => {
     const spyCreate = spyOn(gameServiceStub, 'create').and.callThrough();
     const spyReset = spyOn(queueServiceStub, 'reset').and.callThrough();
+    const spyResetMapVote = spyOn(mapVoteServiceStub, 'reset').and.callThrough();
 
     queueServiceStub.slots = [
       { id: 0, gameClass: 'soldier', playerId: 'FAKE_PLAYER_1', playerReady: true },
       { id: 1, gameClass: 'soldier', playerId: 'FAKE_PLAYER_2', playerReady: true },
     ];
-    queueServiceStub.emit('state_change', 'launching');
+    queueServiceStub.emit('state_change', 'launching', 'FAKE_QUEUE');
+    await new Promise(resolve => setImmediate(resolve));
 
     expect(spyCreate).toHaveBeenCalledWith(
+      'FAKE_QUEUE',
       queueServiceStub.slots,
       queueConfigServiceStub.queueConfig,
       'cp_fake_rc1',
+      [ { map: 'cp_fake_rc1', voteCount: 1 }, { map: 'cp_fake_rc2', voteCount: 0 } ],
     );
 
-    await new Promise(resolve => resolve());
-    expect(spyReset).toHaveBeenCalled();
+    expect(spyReset).toHaveBeenCalledWith('FAKE_QUEUE');
+    expect(spyResetMapVote).toHaveBeenCalledWith('FAKE_QUEUE');
   });
 
 });
@@ -15,21 +15,27 @@ export class GameLauncherService {
     @inject(QueueConfigService) private queueConfigService: QueueConfigService,
     @inject(MapVoteService) private mapVoteService: MapVoteService,
   ) {
-    this.queueService.on('state_change', (state: QueueState) => {
+    this.queueService.on('state_change', (state: QueueState, queueId: string) => {
       if (state === 'launching') {
-        this.launchGame();
+        this.launchGame(queueId);
       }
     });
   }
 
-  private async launchGame() {
+  private async launchGame(queueId: string) {
+    const mapVoteResults = this.mapVoteService.getResults(queueId);
+    const map = await this.mapVoteService.getWinner(queueId);
+
     await this.gameService.create(
-      this.queueService.slots,
-      this.queueConfigService.queueConfig,
-      this.mapVoteService.getWinner(),
+      queueId,
+      this.queueService.getQueue(queueId).slots,
+      this.queueConfigService.getQueueConfig(queueId),
+      map,
+      mapVoteResults,
     );
 
-    this.queueService.reset();
+    this.queueService.reset(queueId);
+    await this.mapVoteService.reset(queueId);
   }
 
 }
@@ -3,3 +3,4 @@ export { MapVoteService } from './map-vote-service';
 export { QueueService } from './queue-service';
 export { QueueConfigService } from './queue-config-service';
 export { QueueNotificationsService } from './queue-notifications-service';
+export { QueueSnapshotService } from './queue-snapshot-service';
@@ -1,18 +1,25 @@
 import { EventEmitter } from 'events';
 import { Container } from 'inversify';
 import { WsProviderService } from '../../core/services';
+import { GameService } from '../../games/services/game-service';
+import { MapService } from '../../maps/services/map-service';
 import { MapVoteService } from './map-vote-service';
 import { QueueConfigService } from './queue-config-service';
 import { QueueService } from './queue-service';
 
 const queueConfigServiceStub = {
+  queueIds: ['FAKE_QUEUE'],
   queueConfig: {
-    maps: [1, 2, 3, 4].map(n => `fake_map_${n}`),
+    maps: [1, 2, 3, 4].map(n => ({ name: `fake_map_${n}`, execConfigs: [], weight: 1 })),
+    mapVoteOptionCount: 3,
+    mapCooldown: 1,
   },
+  getQueueConfig(queueId: string) { return this.queueConfig; },
+  on: () => null,
 };
 
 class QueueServiceStub extends EventEmitter {
-  public isInQueue(playerId: string) { return true; }
+  public findQueueIdForPlayer(playerId: string) { return 'FAKE_QUEUE'; }
 }
 
 const queueServiceStub = new QueueServiceStub();
@@ -23,94 +30,160 @@ const wsProviderServiceStub = {
   },
 };
 
+const mapServiceStub = {
+  on: () => null,
+  isEnabled: (name: string) => true,
+};
+
+const gameServiceStub = {
+  getRecentMaps: async (queueId: string, count: number) => ['fake_map_1'],
+  lastPlayedAt: async (queueId: string, map: string) => undefined as Date,
+};
+
 describe('MapVoteService', () => {
   const container = new Container();
   let service: MapVoteService;
 
   beforeAll(() => {
     container.bind(QueueConfigService).toConstantValue(queueConfigServiceStub as unknown as QueueConfigService);
-    container.bind(QueueService).toConstantValue(queueServiceStub as QueueService);
+    container.bind(QueueService).toConstantValue(queueServiceStub as unknown as QueueService);
     container.bind(WsProviderService).toConstantValue(wsProviderServiceStub as WsProviderService);
+    container.bind(MapService).toConstantValue(mapServiceStub as unknown as MapService);
+    container.bind(GameService).toConstantValue(gameServiceStub as unknown as GameService);
   });
 
-  beforeEach(() => service = container.resolve(MapVoteService));
+  beforeEach(async () => {
+    service = container.resolve(MapVoteService);
+    await new Promise(resolve => setImmediate(resolve));
+  });
 
   it('should reset all votes initially', () => {
-    expect(service.mapOptions.every(m => queueConfigServiceStub.queueConfig.maps.includes(m))).toBe(true);
-    expect(service.results.every(r => r.voteCount === 0)).toBe(true);
+    const mapNames = queueConfigServiceStub.queueConfig.maps.map(m => m.name);
+    expect(service.mapOptions.get('FAKE_QUEUE').length).toEqual(3);
+    expect(service.mapOptions.get('FAKE_QUEUE').every(m => mapNames.includes(m))).toBe(true);
+    expect(service.getResults('FAKE_QUEUE').every(r => r.voteCount === 0)).toBe(true);
   });
 
   describe('#voteForMap()', () => {
     beforeEach(() => {
-      service.mapOptions = ['cp_badlands', 'cp_process_final', 'cp_snakewater_final1'];
+      service.mapOptions.set('FAKE_QUEUE', ['cp_badlands', 'cp_process_final', 'cp_snakewater_final1']);
     });
 
     it('should save the vote', () => {
       service.voteForMap('FAKE_ID', 'cp_badlands');
-      expect(service.results).toEqual([
+      expect(service.getResults('FAKE_QUEUE')).toEqual([
         { map: 'cp_badlands', voteCount: 1 },
         { map: 'cp_process_final', voteCount: 0 },
         { map: 'cp_snakewater_final1', voteCount: 0 },
       ]);
-      expect(service.voteCountForMap('cp_badlands')).toEqual(1);
+      expect(service.voteCountForMap('FAKE_QUEUE', 'cp_badlands')).toEqual(1);
     });
 
     it('should emit an event over the ws', () => {
       const spy = spyOn(wsProviderServiceStub.ws, 'emit');
       service.voteForMap('FAKE_ID', 'cp_badlands');
-      expect(spy).toHaveBeenCalledWith('map vote results update', jasmine.any(Object));
+      expect(spy).toHaveBeenCalledWith('map vote results update', jasmine.any(Object), 'FAKE_QUEUE');
     });
 
     it('should deny voting for maps out of pool', () => {
       expect(() => service.voteForMap('FAKE_ID', 'cp_sunshine')).toThrowError();
     });
 
+    it('should deny voting for disabled maps', () => {
+      spyOn(mapServiceStub, 'isEnabled').and.returnValue(false);
+      expect(() => service.voteForMap('FAKE_ID', 'cp_badlands')).toThrowError('this map is disabled');
+    });
+
     it('should deny voting if the player is not in the queue', () => {
-      const spy = spyOn(queueServiceStub, 'isInQueue').and.returnValue(false);
+      const spy = spyOn(queueServiceStub, 'findQueueIdForPlayer').and.returnValue(undefined);
       expect(() => service.voteForMap('FAKE_ID', 'cp_badlands')).toThrowError();
     });
 
     it('should remove the player\'s vote when the player leaves the queue', () => {
       service.voteForMap('FAKE_PLAYER_ID', 'cp_badlands');
-      expect(service.voteCountForMap('cp_badlands')).toEqual(1);
+      expect(service.voteCountForMap('FAKE_QUEUE', 'cp_badlands')).toEqual(1);
 
       const spy = spyOn(wsProviderServiceStub.ws, 'emit');
 
-      queueServiceStub.emit('player_leave', 'FAKE_PLAYER_ID');
-      expect(service.voteCountForMap('cp_badlands')).toEqual(0);
+      queueServiceStub.emit('player_leave', 'FAKE_PLAYER_ID', 'FAKE_QUEUE');
+      expect(service.voteCountForMap('FAKE_QUEUE', 'cp_badlands')).toEqual(0);
 
-      expect(spy).toHaveBeenCalledWith('map vote results update', jasmine.any(Object));
+      expect(spy).toHaveBeenCalledWith('map vote results update', jasmine.any(Object), 'FAKE_QUEUE');
     });
   });
 
   describe('#getWinner()', () => {
     beforeEach(() => {
-      service.mapOptions = ['cp_badlands', 'cp_process_final', 'cp_snakewater_final1'];
+      service.mapOptions.set('FAKE_QUEUE', ['cp_badlands', 'cp_process_final', 'cp_snakewater_final1']);
     });
 
-    it('should return the map with the most votes', () => {
+    it('should return the map with the most votes', async () => {
       service.voteForMap('FAKE_ID', 'cp_badlands');
-      expect(service.getWinner()).toEqual('cp_badlands');
+      expect(await service.getWinner('FAKE_QUEUE')).toEqual('cp_badlands');
+    });
+
+    it('should return one of two most-voted maps', async () => {
+      service.voteForMap('FAKE_ID_1', 'cp_badlands');
+      service.voteForMap('FAKE_ID_2', 'cp_process_final');
+      expect(await service.getWinner('FAKE_QUEUE')).toMatch(/cp_badlands|cp_process_final/);
     });
 
-    it('should return one of two most-voted maps', () => {
+    it('should break ties in favour of the least recently played map', async () => {
+      const spy = spyOn(gameServiceStub, 'lastPlayedAt').and.callFake(async (queueId: string, map: string) =>
+        map === 'cp_badlands' ? new Date(2000) : new Date(1000));
       service.voteForMap('FAKE_ID_1', 'cp_badlands');
       service.voteForMap('FAKE_ID_2', 'cp_process_final');
-      expect(service.getWinner()).toMatch(/cp_badlands|cp_process_final/);
+      expect(await service.getWinner('FAKE_QUEUE')).toEqual('cp_process_final');
+      expect(spy).toHaveBeenCalledWith('FAKE_QUEUE', 'cp_badlands');
     });
 
-    it('should eventually reset the vote', done => {
+    it('should prefer maps that have never been played', async () => {
+      spyOn(gameServiceStub, 'lastPlayedAt').and.callFake(async (queueId: string, map: string) =>
+        map === 'cp_badlands' ? undefined : new Date(1000));
       service.voteForMap('FAKE_ID_1', 'cp_badlands');
       service.voteForMap('FAKE_ID_2', 'cp_process_final');
+      expect(await service.getWinner('FAKE_QUEUE')).toEqual('cp_badlands');
+    });
+
+    it('should not reset the vote', async () => {
+      service.voteForMap('FAKE_ID_1', 'cp_badlands');
+      await service.getWinner('FAKE_QUEUE');
+      expect(service.voteCountForMap('FAKE_QUEUE', 'cp_badlands')).toEqual(1);
+    });
+  });
+
+  describe('#reset()', () => {
+    it('should clear the votes', async () => {
+      service.mapOptions.set('FAKE_QUEUE', ['fake_map_2', 'fake_map_3', 'fake_map_4']);
+      service.voteForMap('FAKE_ID_1', 'fake_map_2');
 
       const spy = spyOn(wsProviderServiceStub.ws, 'emit');
-      const map = service.getWinner();
-      setImmediate(() => {
-        expect(spy).toHaveBeenCalledWith('map vote results update', jasmine.any(Array));
-        expect(service.results.every(r => r.voteCount === 0)).toBe(true);
-        expect(service.mapOptions.every(m => m !== map));
-        done();
+      await service.reset('FAKE_QUEUE');
+      expect(spy).toHaveBeenCalledWith('map vote results update', jasmine.any(Array), 'FAKE_QUEUE');
+      expect(service.getResults('FAKE_QUEUE').every(r => r.voteCount === 0)).toBe(true);
+    });
+
+    it('should not draw recently played maps', async () => {
+      const spy = spyOn(gameServiceStub, 'getRecentMaps').and.callThrough();
+      await service.reset('FAKE_QUEUE');
+      expect(spy).toHaveBeenCalledWith('FAKE_QUEUE', 1);
+      expect(service.mapOptions.get('FAKE_QUEUE').sort()).toEqual(['fake_map_2', 'fake_map_3', 'fake_map_4']);
+    });
+
+    it('should draw the configured number of options', async () => {
+      spyOn(queueConfigServiceStub, 'getQueueConfig').and.returnValue({
+        ...queueConfigServiceStub.queueConfig,
+        mapVoteOptionCount: 2,
       });
+      await service.reset('FAKE_QUEUE');
+      expect(service.mapOptions.get('FAKE_QUEUE').length).toEqual(2);
+    });
+
+    it('should fall back to the whole pool if all the maps were played recently', async () => {
+      spyOn(gameServiceStub, 'getRecentMaps').and.returnValue(
+        Promise.resolve(['fake_map_1', 'fake_map_2', 'fake_map_3', 'fake_map_4']));
+      await service.reset('FAKE_QUEUE');
+      expect(service.mapOptions.get('FAKE_QUEUE').length).toEqual(3);
     });
   });
 });
@@ -1,91 +1,168 @@
 import { inject } from 'inversify';
 import { provide } from 'inversify-binding-decorators';
-import { maxBy, shuffle } from 'lodash';
+import { maxBy } from 'lodash';
 import { WsProviderService } from '../../core/services';
-import { Tf2Map } from '../../queue/models/tf2-map';
+import { MapVoteResult } from '../../games/models';
+import { GameService } from '../../games/services/game-service';
+import logger from '../../logger';
+import { MapService } from '../../maps/services/map-service';
+import { QueueConfig } from '../models/queue-config';
+import { weightedSample } from '../utils/weighted-sample';
 import { QueueConfigService } from './queue-config-service';
 import { QueueService } from './queue-service';
 
 interface MapVote {
   playerId: string;
-  map: Tf2Map;
-}
-
-interface MapVoteResult {
-  map: Tf2Map;
-  voteCount: number;
+  map: string;
 }
 
 @provide(MapVoteService)
 export class MapVoteService {
 
-  public mapOptions: Tf2Map[];
-
-  get results(): MapVoteResult[] {
-    return this.mapOptions
-      .map(map => ({ map, voteCount: this.voteCountForMap(map) }));
-  }
+  public mapOptions = new Map<string, string[]>();
 
-  private lastPlayedMap: string;
-  private readonly mapVoteOptionCount = 3;
-  private votes: MapVote[];
+  private votes = new Map<string, MapVote[]>();
 
   constructor(
     @inject(QueueConfigService) private queueConfigService: QueueConfigService,
     @inject(QueueService) private queueService: QueueService,
     @inject(WsProviderService) private wsProvider: WsProviderService,
+    @inject(MapService) private mapService: MapService,
+    @inject(GameService) private gameService: GameService,
   ) {
-    this.queueService.on('player_leave', (playerId: string) => this.resetPlayerVote(playerId));
-    this.reset();
+    this.queueService.on('player_leave', (playerId: string, queueId: string) =>
+      this.resetPlayerVote(queueId, playerId));
+    this.queueConfigService.on('queue_config_update', (queueId: string, oldQueueConfig: QueueConfig) =>
+      this.onQueueConfigUpdate(queueId, oldQueueConfig));
+    this.mapService.on('map_update', () => this.onMapUpdate());
+    this.queueConfigService.queueIds.forEach(queueId => {
+      // no options until the recently played maps are fetched
+      this.mapOptions.set(queueId, []);
+      this.votes.set(queueId, []);
+      this.reset(queueId);
+    });
   }
 
-  public voteCountForMap(map: Tf2Map): number {
-    return this.votes.filter(v => v.map === map).length;
+  public getResults(queueId: string): MapVoteResult[] {
+    return this.mapOptions.get(queueId)
+      .map(map => ({ map, voteCount: this.voteCountForMap(queueId, map) }));
   }
 
-  public voteForMap(playerId: string, map: Tf2Map) {
-    if (!this.mapOptions.includes(map)) {
+  public voteCountForMap(queueId: string, map: string): number {
+    return this.votes.get(queueId).filter(v => v.map === map).length;
+  }
+
+  public voteForMap(playerId: string, map: string) {
+    const queueId = this.queueService.findQueueIdForPlayer(playerId);
+    if (!queueId) {
+      throw new Error('player not in queue');
+    }
+
+    if (!this.mapOptions.get(queueId).includes(map)) {
       throw new Error('this map is not an option in the vote');
     }
 
-    if (!this.queueService.isInQueue(playerId)) {
-      throw new Error('player not in queue');
+    if (!this.mapService.isEnabled(map)) {
+      throw new Error('this map is disabled');
     }
 
-    this.votes = [
-      ...this.votes.filter(v => v.playerId !== playerId),
+    this.votes.set(queueId, [
+      ...this.votes.get(queueId).filter(v => v.playerId !== playerId),
       { map, playerId },
-    ];
+    ]);
 
-    this.wsProvider.ws.emit('map vote results update', this.results);
+    this.wsProvider.ws.emit('map vote results update', this.getResults(queueId), queueId);
   }
 
-  public playerVote(playerId: string): Tf2Map {
-    return this.votes.find(v => v.playerId === playerId)?.map;
+  public playerVote(playerId: string): string {
+    for (const votes of this.votes.values()) {
+      const vote = votes.find(v => v.playerId === playerId);
+      if (vote) {
+        return vote.map;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Decides the winner of the vote.
+   * Ties go to the map that was played least recently in this queue; if that does not settle it, the winner is
+   * picked randomly.
+   * The vote is not reset until the game is created, call reset() then.
+   * @param queueId The queue the vote is held in.
+   */
+  public async getWinner(queueId: string): Promise<string> {
+    const results = this.getResults(queueId);
+    const maxVotes = maxBy(results, r => r.voteCount).voteCount;
+    let maps = results.filter(r => r.voteCount === maxVotes).map(r => r.map);
+
+    if (maps.length > 1) {
+      maps = await this.leastRecentlyPlayed(queueId, maps);
+    }
+
+    return maps[Math.floor(Math.random() * maps.length)];
   }
 
   /**
-   * Decides the winner and resets the vote.
+   * Draws new map options and clears all the votes.
+   * Maps played in the last few games of the queue (as set by the mapCooldown) are not drawn.
+   * @param queueId The queue the vote is held in.
    */
-  public getWinner() {
-    const maxVotes = maxBy(this.results, r => r.voteCount).voteCount;
-    const mapsWithMaxVotes = this.results.filter(m => m.voteCount === maxVotes);
-    const map = mapsWithMaxVotes[Math.floor(Math.random() * mapsWithMaxVotes.length)].map;
-    this.lastPlayedMap = map;
-    setImmediate(() => this.reset());
-    return map;
+  public async reset(queueId: string) {
+    const { maps: pool, mapVoteOptionCount, mapCooldown } = this.queueConfigService.getQueueConfig(queueId);
+    let recentMaps: string[] = [];
+    try {
+      recentMaps = await this.gameService.getRecentMaps(queueId, mapCooldown);
+    } catch (error) {
+      logger.error(`could not fetch recently played maps for ${queueId} (${error.message})`);
+    }
+
+    const enabledMaps = pool.filter(m => this.mapService.isEnabled(m.name));
+    let maps = enabledMaps.filter(m => !recentMaps.includes(m.name));
+    if (maps.length === 0) {
+      if (enabledMaps.length === 0) {
+        logger.warn(`no enabled maps in the ${queueId} map pool`);
+      }
+
+      maps = enabledMaps.length > 0 ? enabledMaps : pool;
+    }
+
+    this.mapOptions.set(queueId, weightedSample(maps, m => m.weight, mapVoteOptionCount).map(m => m.name));
+    this.votes.set(queueId, []);
+    this.wsProvider.ws.emit('map vote results update', this.getResults(queueId), queueId);
+  }
+
+  private async leastRecentlyPlayed(queueId: string, maps: string[]): Promise<string[]> {
+    try {
+      const lastPlayed = await Promise.all(maps.map(async map =>
+        (await this.gameService.lastPlayedAt(queueId, map))?.getTime() ?? 0));
+      const oldest = Math.min(...lastPlayed);
+      return maps.filter((map, i) => lastPlayed[i] === oldest);
+    } catch (error) {
+      logger.error(`could not fetch map history for ${queueId} (${error.message})`);
+      return maps;
+    }
+  }
+
+  private onQueueConfigUpdate(queueId: string, oldQueueConfig: QueueConfig) {
+    const { maps, mapVoteOptionCount, mapCooldown } = this.queueConfigService.getQueueConfig(queueId);
+    if (!this.mapOptions.get(queueId).every(m => maps.some(({ name }) => name === m))
+      || mapVoteOptionCount !== oldQueueConfig.mapVoteOptionCount
+      || mapCooldown !== oldQueueConfig.mapCooldown) {
+      this.reset(queueId);
+    }
   }
 
-  private reset() {
-    this.mapOptions = shuffle(this.queueConfigService.queueConfig.maps.filter(m => m !== this.lastPlayedMap))
-      .slice(0, this.mapVoteOptionCount);
-    this.votes = [];
-    this.wsProvider.ws.emit('map vote results update', this.results);
+  private onMapUpdate() {
+    this.queueConfigService.queueIds
+      .filter(queueId => !this.mapOptions.get(queueId).every(m => this.mapService.isEnabled(m)))
+      .forEach(queueId => this.reset(queueId));
   }
 
-  private resetPlayerVote(playerId: string) {
-    this.votes = [ ...this.votes.filter(v => v.playerId !== playerId) ];
-    this.wsProvider.ws.emit('map vote results update', this.results);
+  private resetPlayerVote(queueId: string, playerId: string) {
+    this.votes.set(queueId, [ ...this.votes.get(queueId).filter(v => v.playerId !== playerId) ]);
+    this.wsProvider.ws.emit('map vote results update', this.getResults(queueId), queueId);
   }
 
 }
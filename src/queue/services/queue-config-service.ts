@@ -1,18 +1,185 @@
-import { inject } from 'inversify';
+import { EventEmitter } from 'events';
+import { inject, postConstruct } from 'inversify';
 import { provide } from 'inversify-binding-decorators';
 import { Config } from '../../config';
-import { QueueConfig } from '../models/queue-config';
+import logger from '../../logger';
+import { MapService } from '../../maps/services/map-service';
+import { MapPoolItem } from '../models/map-pool-item';
+import { QueueConfig, queueConfigModel } from '../models/queue-config';
 import { queueConfigs } from '../queue-configs';
+import { validateQueueConfig } from '../utils/validate-queue-config';
+
+/**
+ * A queue config as it may have been stored by an older version.
+ */
+type StoredQueueConfig = Omit<QueueConfig, 'maps'> & {
+  maps: Array<MapPoolItem | string>;
+  execConfigs?: string[];
+};
+
+/**
+ * Values for settings that were added after the given config had been stored.
+ * They reflect how the queue behaved before the setting was there.
+ */
+function defaultSettings(queueConfig: Pick<QueueConfig, 'classes'>): Partial<QueueConfig> {
+  const hasMedics = queueConfig.classes.some(cls => cls.name === 'medic');
+  return {
+    mapVoteOptionCount: 3,
+    mapCooldown: 1,
+    friendMarkingClasses: hasMedics ? [ 'medic' ] : [],
+    maxFriendsPerTeam: hasMedics ? 1 : 0,
+    balancingStrategy: 'average-skill',
+    skillRatingMode: 'manual',
+    joinGameTimeout: 0,
+    gameServerRegions: [],
+    gameServerTags: [],
+  };
+}
 
 @provide(QueueConfigService)
-export class QueueConfigService {
+export class QueueConfigService extends EventEmitter {
+
+  public readonly queueConfigs = new Map<string, QueueConfig>();
+
+  /* Resolves once the stored configs have been loaded */
+  public readonly ready: Promise<void>;
+  private markReady: () => void;
+
+  public get queueIds(): string[] {
+    return [ ...this.queueConfigs.keys() ];
+  }
 
-  public readonly queueConfig: QueueConfig;
+  /**
+   * Names of all the game classes that are played in any of the queues.
+   */
+  public get gameClasses(): string[] {
+    const gameClasses = [ ...this.queueConfigs.values() ]
+      .flatMap(queueConfig => queueConfig.classes.map(cls => cls.name));
+    return [ ...new Set(gameClasses) ];
+  }
 
   constructor(
-    @inject('config') config: Config,
+    @inject('config') private config: Config,
+    @inject(MapService) private mapService: MapService,
   ) {
-    this.queueConfig = queueConfigs[config.queueConfig];
+    super();
+    this.ready = new Promise(resolve => this.markReady = resolve);
+
+    // older configs name a single queue
+    const queueIds = this.config.queues ?? (this.config.queueConfig ? [ this.config.queueConfig ] : []);
+    if (queueIds.length === 0) {
+      throw new Error('no queues configured, list them in the "queues" setting');
+    }
+
+    // use the defaults until the stored configs are loaded
+    queueIds.forEach(queueId => {
+      const queueConfig = queueConfigs[queueId];
+      if (!queueConfig) {
+        throw new Error(`unknown queue config: ${queueId}`);
+      }
+
+      this.queueConfigs.set(queueId, { queueId, ...queueConfig });
+    });
+  }
+
+  public getQueueConfig(queueId: string): QueueConfig {
+    const queueConfig = this.queueConfigs.get(queueId);
+    if (!queueConfig) {
+      throw new Error('no such queue');
+    }
+
+    return queueConfig;
+  }
+
+  /**
+   * Validates, stores and applies the new config for the given queue.
+   * This does not check whether the queue itself is ready to take the new config; use QueueService for that.
+   * @param queueId The queue to be updated.
+   * @param changes Fields of the config to be altered.
+   */
+  public async updateQueueConfig(queueId: string, changes: Partial<QueueConfig>): Promise<QueueConfig> {
+    const oldQueueConfig = this.getQueueConfig(queueId);
+    const queueConfig: QueueConfig = {
+      queueId,
+      teamCount: changes.teamCount ?? oldQueueConfig.teamCount,
+      classes: changes.classes?.map(({ name, count, weight }) => ({ name, count, weight: weight ?? 1 }))
+        ?? oldQueueConfig.classes,
+      readyUpTimeout: changes.readyUpTimeout ?? oldQueueConfig.readyUpTimeout,
+      queueReadyTimeout: changes.queueReadyTimeout ?? oldQueueConfig.queueReadyTimeout,
+      maps: changes.maps?.map(({ name, displayName, execConfigs, weight }) =>
+        ({ name, displayName, execConfigs: execConfigs ?? [], weight: weight ?? 1 })) ?? oldQueueConfig.maps,
+      mapVoteOptionCount: changes.mapVoteOptionCount ?? oldQueueConfig.mapVoteOptionCount,
+      mapCooldown: changes.mapCooldown ?? oldQueueConfig.mapCooldown,
+      friendMarkingClasses: changes.friendMarkingClasses ?? oldQueueConfig.friendMarkingClasses,
+      maxFriendsPerTeam: changes.maxFriendsPerTeam ?? oldQueueConfig.maxFriendsPerTeam,
+      balancingStrategy: changes.balancingStrategy ?? oldQueueConfig.balancingStrategy,
+      skillRatingMode: changes.skillRatingMode ?? oldQueueConfig.skillRatingMode,
+      joinGameTimeout: changes.joinGameTimeout ?? oldQueueConfig.joinGameTimeout,
+      gameServerRegions: changes.gameServerRegions ?? oldQueueConfig.gameServerRegions,
+      gameServerTags: changes.gameServerTags ?? oldQueueConfig.gameServerTags,
+    };
+
+    validateQueueConfig(queueConfig);
+
+    const unknownMap = queueConfig.maps.find(m => !this.mapService.exists(m.name));
+    if (unknownMap) {
+      throw new Error(`${unknownMap.name} is not in the map catalogue`);
+    }
+
+    await queueConfigModel.updateOne({ queueId }, queueConfig, { upsert: true });
+    logger.info(`queue config for ${queueId} updated`);
+    this.applyQueueConfig(queueConfig);
+    return queueConfig;
+  }
+
+  @postConstruct()
+  public async initialize() {
+    for (const queueId of this.queueIds) {
+      try {
+        const stored = await queueConfigModel.findOne({ queueId }, { _id: 0, __v: 0 }).lean();
+        if (stored) {
+          this.applyQueueConfig(await this.upgradeQueueConfig(stored));
+        } else {
+          await queueConfigModel.create(this.getQueueConfig(queueId));
+        }
+      } catch (error) {
+        logger.error(`could not load queue config for ${queueId} (${error.message})`);
+      }
+    }
+
+    this.markReady();
+  }
+
+  /**
+   * Configs stored before the map pool was introduced keep a flat list of map names and a single list of configs
+   * to execute for all of them. Older configs may lack some of the settings, too.
+   */
+  private async upgradeQueueConfig(stored: StoredQueueConfig): Promise<QueueConfig> {
+    const hasLegacyMaps = stored.maps.some(map => typeof map === 'string');
+    const defaults = defaultSettings(stored);
+    const missingSettings = (Object.keys(defaults) as Array<keyof QueueConfig>)
+      .filter(key => stored[key] === undefined);
+    if (!hasLegacyMaps && missingSettings.length === 0) {
+      return stored as QueueConfig;
+    }
+
+    const { execConfigs, ...rest } = stored;
+    const queueConfig = rest as QueueConfig;
+    if (hasLegacyMaps) {
+      queueConfig.maps = stored.maps.map(map => typeof map === 'string'
+        ? { name: map, execConfigs: execConfigs || [], weight: 1 } : map);
+    }
+
+    missingSettings.forEach(key => Object.assign(queueConfig, { [key]: defaults[key] }));
+    await queueConfigModel.replaceOne({ queueId: queueConfig.queueId }, queueConfig);
+    logger.info(`queue config for ${queueConfig.queueId} upgraded`);
+    return queueConfig;
+  }
+
+  private applyQueueConfig(queueConfig: QueueConfig) {
+    const oldQueueConfig = this.getQueueConfig(queueConfig.queueId);
+    this.queueConfigs.set(queueConfig.queueId, queueConfig);
+    this.emit('queue_config_update', queueConfig.queueId, oldQueueConfig);
   }
 
 }
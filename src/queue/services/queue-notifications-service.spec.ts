@@ -6,8 +6,10 @@ import { QueueNotificationsService } from './queue-notifications-service';
 import { QueueService } from './queue-service';
 
 class QueueServiceStub extends EventEmitter {
-  public playerCount = 0;
-  public requiredPlayerCount = 0;
+  public currentPlayerCount = 0;
+  public targetPlayerCount = 0;
+  public playerCount(queueId: string) { return this.currentPlayerCount; }
+  public requiredPlayerCount(queueId: string) { return this.targetPlayerCount; }
 }
 
 // tslint:disable-next-line:max-classes-per-file
@@ -37,26 +39,26 @@ describe('QueueNotificationsService', () => {
     afterAll(() => jasmine.clock().uninstall());
 
     beforeEach(() => {
-      queueService.playerCount = 6;
-      queueService.requiredPlayerCount = 12;
+      queueService.currentPlayerCount = 6;
+      queueService.targetPlayerCount = 12;
     });
 
     it('should notify after 5 minutes', () => {
       const spy = spyOn(discordBotService, 'notifyQueue');
-      queueService.emit('player_join', 'fake_id');
+      queueService.emit('player_join', 'fake_id', 'fake_queue');
       expect(spy).not.toHaveBeenCalled();
       jasmine.clock().tick(5 * 60 * 1000);
-      // expect(spy).toHaveBeenCalledWith(6, 12);
+      // expect(spy).toHaveBeenCalledWith(6, 12, 'fake_queue');
       expect(spy).toHaveBeenCalled();
     });
 
     // disabled as jasmine doesn't override clearTimeout() properly
     xit('should notify only once if there are two consecutive player_join events', () => {
       const spy = spyOn(discordBotService, 'notifyQueue');
-      queueService.emit('player_join', 'fake_id');
+      queueService.emit('player_join', 'fake_id', 'fake_queue');
       jasmine.clock().tick(4 * 60 * 1000);
       expect(spy).not.toHaveBeenCalled();
-      queueService.emit('player_join', 'fake_id');
+      queueService.emit('player_join', 'fake_id', 'fake_queue');
       jasmine.clock().tick(4 * 60 * 1000);
       expect(spy).not.toHaveBeenCalled();
       jasmine.clock().tick(60 * 1000);
@@ -64,27 +66,27 @@ describe('QueueNotificationsService', () => {
     });
 
     it('should not notify below specified threshold', () => {
-      queueService.playerCount = 5;
+      queueService.currentPlayerCount = 5;
       const spy = spyOn(discordBotService, 'notifyQueue');
-      queueService.emit('player_join', 'fake_id');
+      queueService.emit('player_join', 'fake_id', 'fake_queue');
       jasmine.clock().tick(5 * 60 * 1000);
       expect(spy).not.toHaveBeenCalled();
     });
 
     it('should not notify on full queue', () => {
-      queueService.playerCount = 12;
+      queueService.currentPlayerCount = 12;
       const spy = spyOn(discordBotService, 'notifyQueue');
-      queueService.emit('player_join', 'fake_id');
+      queueService.emit('player_join', 'fake_id', 'fake_queue');
       jasmine.clock().tick(5 * 60 * 1000);
       expect(spy).not.toHaveBeenCalled();
     });
 
     it('should not notify if the player count drops below the required threshold', () => {
-      queueService.playerCount = 6;
+      queueService.currentPlayerCount = 6;
       const spy = spyOn(discordBotService, 'notifyQueue');
-      queueService.emit('player_join', 'fake_id');
+      queueService.emit('player_join', 'fake_id', 'fake_queue');
       jasmine.clock().tick(4 * 60 * 1000);
-      queueService.playerCount = 5;
+      queueService.currentPlayerCount = 5;
       jasmine.clock().tick(5 * 60 * 1000);
       expect(spy).not.toHaveBeenCalled();
     });
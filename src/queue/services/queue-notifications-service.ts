@@ -10,27 +10,28 @@ import { QueueService } from './queue-service';
 export class QueueNotificationsService {
 
   private readonly messageDelay = 5 * 60 * 1000; // 5 minutes
-  private timer: NodeJS.Timeout;
+  private timers = new Map<string, NodeJS.Timeout>();
 
   constructor(
     @inject(QueueService) private queueService: QueueService,
     @inject(DiscordBotService) private discordBotService: DiscordBotService,
   ) {
-    this.queueService.on('player_join', () => this.triggerNotifier());
+    this.queueService.on('player_join', (playerId: string, queueId: string) => this.triggerNotifier(queueId));
   }
 
-  private triggerNotifier() {
-    if (this.timer) {
-      clearTimeout(this.timer);
+  private triggerNotifier(queueId: string) {
+    if (this.timers.has(queueId)) {
+      clearTimeout(this.timers.get(queueId));
     }
 
-    this.timer = setTimeout(() => this.maybeNotify(), this.messageDelay);
+    this.timers.set(queueId, setTimeout(() => this.maybeNotify(queueId), this.messageDelay));
   }
 
-  private maybeNotify() {
-    if (this.queueService.playerCount >= (this.queueService.requiredPlayerCount * 0.5) &&
-        this.queueService.playerCount < this.queueService.requiredPlayerCount) {
-      this.discordBotService.notifyQueue(this.queueService.playerCount, this.queueService.requiredPlayerCount);
+  private maybeNotify(queueId: string) {
+    const playerCount = this.queueService.playerCount(queueId);
+    const requiredPlayerCount = this.queueService.requiredPlayerCount(queueId);
+    if (playerCount >= (requiredPlayerCount * 0.5) && playerCount < requiredPlayerCount) {
+      this.discordBotService.notifyQueue(playerCount, requiredPlayerCount, queueId);
     }
   }
 
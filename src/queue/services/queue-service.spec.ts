@@ -17,10 +17,12 @@ const wsProviderServiceStub = {
 
 const gameServiceStub = {
   activeGameForPlayer: () => null,
-  create: (queueSlots, queueConfig, map, friends) => null,
+  create: (queueId, queueSlots, queueConfig, map) => null,
+  on: () => null,
 };
 
 const queueConfigServiceStub = {
+  queueIds: ['6v6', 'FAKE_QUEUE'],
   queueConfig: {
     classes: [
       { name: 'scout', count: 2 },
@@ -29,10 +31,18 @@ const queueConfigServiceStub = {
       { name: 'medic', count: 1 },
     ],
     teamCount: 2,
-    maps: ['fake_map_1', 'fake_map_2'],
+    maps: [
+      { name: 'fake_map_1', execConfigs: [], weight: 1 },
+      { name: 'fake_map_2', execConfigs: [], weight: 1 },
+    ],
     readyUpTimeout: 1000,
     queueReadyTimeout: 2000,
+    friendMarkingClasses: [ 'medic' ],
+    maxFriendsPerTeam: 1,
   },
+  getQueueConfig(queueId: string) { return this.queueConfig; },
+  updateQueueConfig: (queueId, changes) => null,
+  on: () => null,
 };
 
 const playerBansServiceStub = {
@@ -53,7 +63,7 @@ describe('QueueService', () => {
   beforeAll(() => {
     container.bind(WsProviderService).toConstantValue(wsProviderServiceStub as unknown as WsProviderService);
     container.bind(GameService).toConstantValue(gameServiceStub as unknown as GameService);
-    container.bind(QueueConfigService).toConstantValue(queueConfigServiceStub as QueueConfigService);
+    container.bind(QueueConfigService).toConstantValue(queueConfigServiceStub as unknown as QueueConfigService);
     container.bind(PlayerBansService).toConstantValue(playerBansServiceStub as unknown as PlayerBansService);
   });
 
@@ -62,13 +72,13 @@ describe('QueueService', () => {
   });
 
   it('should reset all slots initially', () => {
-    expect(service.slots.length).toBe(12);
-    expect(service.playerCount).toEqual(0);
-    expect(service.readyPlayerCount).toEqual(0);
+    expect(service.getQueue('6v6').slots.length).toBe(12);
+    expect(service.playerCount('6v6')).toEqual(0);
+    expect(service.readyPlayerCount('6v6')).toEqual(0);
   });
 
   it('should reset state', () => {
-    expect(service.state).toEqual('waiting');
+    expect(service.getQueue('6v6').state).toEqual('waiting');
   });
 
   describe('#join()', () => {
@@ -85,30 +95,30 @@ describe('QueueService', () => {
 
     it('should deny unknown players', async () => {
       const unknownPlayerId = new ObjectId();
-      await expectAsync(service.join(0, unknownPlayerId.toHexString())).toBeRejected();
+      await expectAsync(service.join('6v6', 0, unknownPlayerId.toHexString())).toBeRejected();
     });
 
     it('should deny player with active bans', async () => {
       spyOn(playerBansServiceStub, 'getActiveBansForPlayer').and.returnValue([{}]);
-      await expectAsync(service.join(0, player.id)).toBeRejected();
+      await expectAsync(service.join('6v6', 0, player.id)).toBeRejected();
     });
 
     it('should deny player with an active game', async () => {
       spyOn(gameServiceStub, 'activeGameForPlayer').and.returnValue({ });
-      await expectAsync(service.join(0, player.id)).toBeRejected();
+      await expectAsync(service.join('6v6', 0, player.id)).toBeRejected();
     });
 
     it('should deny unknown slots', async () => {
-      await expectAsync(service.join(12, player.id)).toBeRejected();
+      await expectAsync(service.join('6v6', 12, player.id)).toBeRejected();
     });
 
     it('should reject joining a slot that is already occupied', async () => {
-      service.slots[0].playerId = 'FAKE_PLAYER_ID';
-      await expectAsync(service.join(0, player.id)).toBeRejected();
+      service.getQueue('6v6').slots[0].playerId = 'FAKE_PLAYER_ID';
+      await expectAsync(service.join('6v6', 0, player.id)).toBeRejected();
     });
 
     it('should store the id of the player that joined', async () => {
-      const slots = await service.join(0, player.id);
+      const slots = await service.join('6v6', 0, player.id);
       expect(slots.length).toEqual(1);
       const slot = slots[0];
       expect(slot.playerId).toEqual(player.id);
@@ -117,8 +127,8 @@ describe('QueueService', () => {
     });
 
     it('should ready up immediately if the queue is in ready state', async () => {
-      service.state = 'ready';
-      const slots = await service.join(0, player.id);
+      service.getQueue('6v6').state = 'ready';
+      const slots = await service.join('6v6', 0, player.id);
       expect(slots.length).toEqual(1);
       const slot = slots[0];
       expect(slot.playerReady).toBe(true);
@@ -131,58 +141,71 @@ describe('QueueService', () => {
       );
 
       for (let i = 0; i < 11; ++i) {
-        await service.join(i, players[i].id);
+        await service.join('6v6', i, players[i].id);
       }
 
-      const slots = await service.join(11, player.id);
+      const slots = await service.join('6v6', 11, player.id);
       expect(slots[0].playerReady).toBe(true);
     });
 
     it('should remove the player from already taken slot', async () => {
-      const oldSlots = await service.join(0, player.id);
-      const newSlots = await service.join(1, player.id);
+      const oldSlots = await service.join('6v6', 0, player.id);
+      const newSlots = await service.join('6v6', 1, player.id);
       expect(newSlots.length).toEqual(2);
       expect(newSlots.find(s => s.playerId === player.id)).toBeTruthy();
       expect(oldSlots[0].playerId).toBeUndefined();
     });
 
+    it('should remove the player from the other queue', async () => {
+      await service.join('FAKE_QUEUE', 0, player.id);
+      expect(service.findQueueIdForPlayer(player.id)).toEqual('FAKE_QUEUE');
+
+      await service.join('6v6', 0, player.id);
+      expect(service.findQueueIdForPlayer(player.id)).toEqual('6v6');
+      expect(service.playerCount('FAKE_QUEUE')).toEqual(0);
+    });
+
+    it('should deny unknown queues', async () => {
+      await expectAsync(service.join('FAKE_UNKNOWN_QUEUE', 0, player.id)).toBeRejected();
+    });
+
     it('should emit the event', async () => {
       const spy = spyOn(service, 'emit');
-      await service.join(0, player.id);
-      expect(spy).toHaveBeenCalledWith('player_join', player.id);
+      await service.join('6v6', 0, player.id);
+      expect(spy).toHaveBeenCalledWith('player_join', player.id, '6v6');
     });
 
     it('should emit the event over ws', async () => {
       const spy = spyOn(wsProviderServiceStub.ws, 'emit');
-      const slots = await service.join(0, player.id);
-      expect(spy).toHaveBeenCalledWith('queue slots update', slots);
+      const slots = await service.join('6v6', 0, player.id);
+      expect(spy).toHaveBeenCalledWith('queue slots update', slots, '6v6');
     });
 
     it('should update queue numbers', async () => {
-      expect(service.playerCount).toEqual(0);
-      await service.join(0, player.id);
-      expect(service.playerCount).toEqual(1);
+      expect(service.playerCount('6v6')).toEqual(0);
+      await service.join('6v6', 0, player.id);
+      expect(service.playerCount('6v6')).toEqual(1);
     });
 
     it('should remember friend when changing slots', async () => {
-      const medicSlots = service.slots.filter(s => s.gameClass === 'medic');
+      const medicSlots = service.getQueue('6v6').slots.filter(s => s.gameClass === 'medic');
       expect(medicSlots.length).toBe(2);
 
-      let slots = await service.join(medicSlots[0].id, player.id);
+      let slots = await service.join('6v6', medicSlots[0].id, player.id);
       slots[0].friend = 'FAKE_FRIEND_ID';
 
-      slots = await service.join(medicSlots[1].id, player.id);
+      slots = await service.join('6v6', medicSlots[1].id, player.id);
       expect(slots.find(s => s.playerId === player.id).friend).toEqual('FAKE_FRIEND_ID');
     });
 
     it('should clear friend when chaning slots to non-medic one', async () => {
-      const medicSlot = service.slots.find(s => s.gameClass === 'medic');
-      const otherSlot = service.slots.find(s => s.gameClass !== 'medic');
+      const medicSlot = service.getQueue('6v6').slots.find(s => s.gameClass === 'medic');
+      const otherSlot = service.getQueue('6v6').slots.find(s => s.gameClass !== 'medic');
 
-      let slots = await service.join(medicSlot.id, player.id);
+      let slots = await service.join('6v6', medicSlot.id, player.id);
       slots[0].friend = 'FAKE_FRIEND_ID';
 
-      slots = await service.join(otherSlot.id, player.id);
+      slots = await service.join('6v6', otherSlot.id, player.id);
       expect(slots.find(s => s.playerId === player.id).friend).toBeUndefined();
     });
   });
@@ -200,7 +223,7 @@ describe('QueueService', () => {
     afterAll(async () => await playerModel.deleteMany({ }));
 
     beforeEach(async () => {
-      await service.join(0, player.id);
+      await service.join('6v6', 0, player.id);
     });
 
     it('should reset the slot', () => {
@@ -211,26 +234,26 @@ describe('QueueService', () => {
     it('should emit the event', () => {
       const spy = spyOn(service, 'emit');
       service.leave(player.id);
-      expect(spy).toHaveBeenCalledWith('player_leave', player.id);
+      expect(spy).toHaveBeenCalledWith('player_leave', player.id, '6v6');
     });
 
     it('should emit the ws event', () => {
       const spy = spyOn(wsProviderServiceStub.ws, 'emit');
       const slot = service.leave(player.id);
-      expect(spy).toHaveBeenCalledWith('queue slots update', [ slot ]);
+      expect(spy).toHaveBeenCalledWith('queue slots update', [ slot ], '6v6');
     });
 
     it('should deny leaving the queue when the player is readied up', () => {
-      service.state = 'ready';
-      const slot = service.slots.find(s => s.playerId === player.id);
+      service.getQueue('6v6').state = 'ready';
+      const slot = service.getQueue('6v6').slots.find(s => s.playerId === player.id);
       slot.playerReady = true;
       expect(() => service.leave(player.id)).toThrowError();
     });
 
     it('should update queue numbers', () => {
-      expect(service.playerCount).toEqual(1);
+      expect(service.playerCount('6v6')).toEqual(1);
       service.leave(player.id);
-      expect(service.playerCount).toEqual(0);
+      expect(service.playerCount('6v6')).toEqual(0);
     });
   });
 
@@ -247,21 +270,21 @@ describe('QueueService', () => {
     afterAll(async () => await playerModel.deleteMany({ }));
 
     beforeEach(async () => {
-      await service.join(0, player.id);
+      await service.join('6v6', 0, player.id);
     });
 
     it('should deny readying up unless the queue is in ready state', () => {
-      expect(service.state).toEqual('waiting');
+      expect(service.getQueue('6v6').state).toEqual('waiting');
       expect(() => service.ready(player.id)).toThrowError();
     });
 
     it('should mark the given slot as ready', () => {
       const spy = spyOn(wsProviderServiceStub.ws, 'emit');
-      service.state = 'ready';
+      service.getQueue('6v6').state = 'ready';
       const slot = service.ready(player.id);
       expect(slot.playerReady).toBe(true);
-      expect(service.readyPlayerCount).toEqual(1);
-      expect(spy).toHaveBeenCalledWith('queue slots update', [ slot ]);
+      expect(service.readyPlayerCount('6v6')).toEqual(1);
+      expect(spy).toHaveBeenCalledWith('queue slots update', [ slot ], '6v6');
     });
   });
 
@@ -281,43 +304,138 @@ describe('QueueService', () => {
     afterAll(async () => await playerModel.deleteMany({ }));
 
     beforeEach(() => {
-      medicSlot = service.slots.find(s => s.gameClass === 'medic').id;
-      soldierSlot = service.slots.find(s => s.gameClass === 'soldier').id;
+      medicSlot = service.getQueue('6v6').slots.find(s => s.gameClass === 'medic').id;
+      soldierSlot = service.getQueue('6v6').slots.find(s => s.gameClass === 'soldier').id;
     });
 
     it('should deny if the queue is in launching state', async () => {
-      await service.join(medicSlot, medic.id);
-      await service.join(soldierSlot, soldier.id);
-      service.state = 'launching';
+      await service.join('6v6', medicSlot, medic.id);
+      await service.join('6v6', soldierSlot, soldier.id);
+      service.getQueue('6v6').state = 'launching';
       expectAsync(service.markFriend(medic.id, soldier.id)).toBeRejected();
     });
 
     it('should deny if the given friend is not in the queue', async () => {
-      await service.join(medicSlot, medic.id);
+      await service.join('6v6', medicSlot, medic.id);
       expectAsync(service.markFriend(medic.id, soldier.id)).toBeRejected();
     });
 
     it('should deny classes other than medic', async () => {
-      await service.join(medicSlot, medic.id);
-      await service.join(soldierSlot, soldier.id);
+      await service.join('6v6', medicSlot, medic.id);
+      await service.join('6v6', soldierSlot, soldier.id);
       expectAsync(service.markFriend(soldier.id, medic.id)).toBeRejected();
     });
 
+    it('should allow other classes if the queue config says so', async () => {
+      spyOn(queueConfigServiceStub, 'getQueueConfig').and.returnValue({
+        ...queueConfigServiceStub.queueConfig,
+        friendMarkingClasses: [ 'medic', 'soldier' ],
+      });
+      await service.join('6v6', medicSlot, medic.id);
+      await service.join('6v6', soldierSlot, soldier.id);
+      const slot = await service.markFriend(soldier.id, medic.id);
+      expect(slot.friend).toEqual(medic.id);
+    });
+
+    it('should deny marking friends if the limit is reached', async () => {
+      spyOn(queueConfigServiceStub, 'getQueueConfig').and.returnValue({
+        ...queueConfigServiceStub.queueConfig,
+        maxFriendsPerTeam: 0,
+      });
+      await service.join('6v6', medicSlot, medic.id);
+      await service.join('6v6', soldierSlot, soldier.id);
+      await expectAsync(service.markFriend(medic.id, soldier.id)).toBeRejectedWithError(
+        Error, 'too many friends marked in this queue');
+    });
+
     it('should deny marking the other medic', async () => {
-      const otherMedicSlot = service.slots.find(s => s.gameClass === 'medic' && s.id !== medicSlot).id;
-      await service.join(medicSlot, medic.id);
-      await service.join(otherMedicSlot, soldier.id);
+      const otherMedicSlot = service.getQueue('6v6').slots
+        .find(s => s.gameClass === 'medic' && s.id !== medicSlot).id;
+      await service.join('6v6', medicSlot, medic.id);
+      await service.join('6v6', otherMedicSlot, soldier.id);
       expectAsync(service.markFriend(medic.id, soldier.id)).toBeRejected();
     });
 
     it('should save friends id', async () => {
-      await service.join(medicSlot, medic.id);
-      await service.join(soldierSlot, soldier.id);
+      await service.join('6v6', medicSlot, medic.id);
+      await service.join('6v6', soldierSlot, soldier.id);
 
       const spy = spyOn(wsProviderServiceStub.ws, 'emit');
       const slot = await service.markFriend(medic.id, soldier.id);
       expect(slot.friend).toEqual(soldier.id);
-      expect(spy).toHaveBeenCalledWith('queue slots update', [ slot ]);
+      expect(spy).toHaveBeenCalledWith('queue slots update', [ slot ], '6v6');
+    });
+  });
+
+  describe('#updateQueueConfig()', () => {
+    let player: Document & Player;
+
+    beforeAll(async () => {
+      player = await playerModel.create({
+        name: 'FAKE_PLAYER',
+        steamId: 'FAKE_STEAM_ID',
+      });
+    });
+
+    afterAll(async () => await playerModel.deleteMany({ }));
+
+    it('should deny changes unless the queue is in waiting state', async () => {
+      service.getQueue('6v6').state = 'ready';
+      await expectAsync(service.updateQueueConfig('6v6', { readyUpTimeout: 5000 })).toBeRejected();
+    });
+
+    it('should deny changing the class layout when there are players in the queue', async () => {
+      await service.join('6v6', 0, player.id);
+      await expectAsync(service.updateQueueConfig('6v6', { classes: [ { name: 'soldier', count: 1 } ] }))
+        .toBeRejected();
+    });
+
+    it('should allow changing the map pool when there are players in the queue', async () => {
+      const spy = spyOn(queueConfigServiceStub, 'updateQueueConfig');
+      await service.join('6v6', 0, player.id);
+      const maps = [ { name: 'cp_badlands', execConfigs: [], weight: 1 } ];
+      await service.updateQueueConfig('6v6', { maps });
+      expect(spy).toHaveBeenCalledWith('6v6', { maps });
+    });
+
+    it('should deny joining while the class layout is being changed', async () => {
+      let finishUpdate: () => void;
+      spyOn(queueConfigServiceStub, 'updateQueueConfig')
+        .and.returnValue(new Promise(resolve => finishUpdate = () => resolve(null)));
+      const update = service.updateQueueConfig('6v6', { classes: [ { name: 'soldier', count: 1 } ] });
+      await expectAsync(service.join('6v6', 0, player.id)).toBeRejectedWithError('the queue is being reconfigured');
+      finishUpdate();
+      await update;
+      expect(service.playerCount('6v6')).toEqual(0);
+    });
+  });
+
+  describe('#restore()', () => {
+    it('should put the players back in their slots', () => {
+      service.restore('6v6', [
+        { id: 0, gameClass: 'scout', playerId: 'FAKE_PLAYER_ID_1', playerReady: false },
+        { id: 10, gameClass: 'medic', playerId: 'FAKE_PLAYER_ID_2', playerReady: false, friend: 'FAKE_PLAYER_ID_1' },
+      ], 'waiting');
+      expect(service.getQueue('6v6').slots[0].playerId).toEqual('FAKE_PLAYER_ID_1');
+      expect(service.getQueue('6v6').slots[10].playerId).toEqual('FAKE_PLAYER_ID_2');
+      expect(service.getQueue('6v6').slots[10].friend).toEqual('FAKE_PLAYER_ID_1');
+      expect(service.playerCount('6v6')).toEqual(2);
+    });
+
+    it('should skip slots that do not match the class layout', () => {
+      service.restore('6v6', [
+        { id: 0, gameClass: 'sniper', playerId: 'FAKE_PLAYER_ID_1', playerReady: false },
+        { id: 12, gameClass: 'scout', playerId: 'FAKE_PLAYER_ID_2', playerReady: false },
+      ], 'waiting');
+      expect(service.playerCount('6v6')).toEqual(0);
+    });
+
+    it('should go back to ready up when the queue was full', () => {
+      const slots = service.getQueue('6v6').slots
+        .map(slot => ({ ...slot, playerId: `FAKE_PLAYER_ID_${slot.id}`, playerReady: slot.id < 6 }));
+      service.restore('6v6', slots, 'ready');
+      expect(service.getQueue('6v6').state).toEqual('ready');
+      expect(service.readyPlayerCount('6v6')).toEqual(6);
     });
   });
 
@@ -335,92 +453,108 @@ describe('QueueService', () => {
     afterEach(async () => await playerModel.deleteMany({ }));
 
     it('should change waiting->ready->launching->waiting', async () => {
-      expect(service.state).toEqual('waiting');
+      expect(service.getQueue('6v6').state).toEqual('waiting');
       const spy = spyOn(service, 'emit');
 
       for (let i = 0; i < 12; ++i) {
-        await service.join(i, players[i].id);
+        await service.join('6v6', i, players[i].id);
       }
 
       await wait();
-      expect(service.state).toEqual('ready');
-      expect(spy).toHaveBeenCalledWith('state_change', 'ready');
+      expect(service.getQueue('6v6').state).toEqual('ready');
+      expect(spy).toHaveBeenCalledWith('state_change', 'ready', '6v6');
 
       for (let i = 0; i < 11; ++i) {
         service.ready(players[i].id);
       }
 
       await wait();
-      expect(spy).toHaveBeenCalledWith('state_change', 'launching');
-      expect(service.state).toEqual('launching');
+      expect(spy).toHaveBeenCalledWith('state_change', 'launching', '6v6');
+      expect(service.getQueue('6v6').state).toEqual('launching');
 
-      service.reset();
-      expect(service.state).toEqual('waiting');
-      expect(spy).toHaveBeenCalledWith('state_change', 'waiting');
+      service.reset('6v6');
+      expect(service.getQueue('6v6').state).toEqual('waiting');
+      expect(spy).toHaveBeenCalledWith('state_change', 'waiting', '6v6');
     });
 
     it('should change waiting->ready->waiting', async () => {
       jasmine.clock().install();
 
-      expect(service.state).toEqual('waiting');
+      expect(service.getQueue('6v6').state).toEqual('waiting');
 
       for (let i = 0; i < 12; ++i) {
-        await service.join(i, players[i].id);
+        await service.join('6v6', i, players[i].id);
       }
 
       await wait();
-      expect(service.state).toEqual('ready');
+      expect(service.getQueue('6v6').state).toEqual('ready');
 
       jasmine.clock().tick(queueConfigServiceStub.queueConfig.queueReadyTimeout + 1);
 
-      expect(service.state).toEqual('waiting');
-      expect(service.slots.filter(s => s.id < 11).every(s => !s.playerId)).toBe(true);
+      expect(service.getQueue('6v6').state).toEqual('waiting');
+      expect(service.getQueue('6v6').slots.filter(s => s.id < 11).every(s => !s.playerId)).toBe(true);
 
       jasmine.clock().uninstall();
     });
 
     it('should kick players that are not ready on time', async () => {
       jasmine.clock().install();
-      expect(service.state).toEqual('waiting');
+      expect(service.getQueue('6v6').state).toEqual('waiting');
 
       for (let i = 0; i < 12; ++i) {
-        await service.join(i, players[i].id);
+        await service.join('6v6', i, players[i].id);
       }
 
       await wait();
-      expect(service.state).toEqual('ready');
+      expect(service.getQueue('6v6').state).toEqual('ready');
 
       // ready up exactly 6 players
       for (let i = 1; i < 12; i += 2) {
-        service.ready(service.slots[i].playerId);
+        service.ready(service.getQueue('6v6').slots[i].playerId);
       }
 
       jasmine.clock().tick(queueConfigServiceStub.queueConfig.readyUpTimeout + 1);
-      expect(service.readyPlayerCount).toEqual(6);
+      expect(service.readyPlayerCount('6v6')).toEqual(6);
 
       // all players that didn't ready up should be kicked
       for (let i = 0; i < 12; i += 2) {
-        expect(service.slots[i].playerId).toBeUndefined();
+        expect(service.getQueue('6v6').slots[i].playerId).toBeUndefined();
       }
 
       // the rest should be left intact
       for (let i = 1; i < 12; i += 2) {
-        expect(service.slots[i].playerId).toBeTruthy();
-        expect(service.slots[i].playerReady).toBe(true);
+        expect(service.getQueue('6v6').slots[i].playerId).toBeTruthy();
+        expect(service.getQueue('6v6').slots[i].playerReady).toBe(true);
       }
 
       jasmine.clock().tick(queueConfigServiceStub.queueConfig.queueReadyTimeout);
-      expect(service.state).toEqual('waiting');
+      expect(service.getQueue('6v6').state).toEqual('waiting');
+      jasmine.clock().uninstall();
+    });
+
+    it('should not touch other queues when kicking players that are not ready', async () => {
+      jasmine.clock().install();
+      for (let i = 0; i < 12; ++i) {
+        await service.join('6v6', i, players[i].id);
+      }
+
+      await wait();
+      const spy = spyOn(service, 'emit').and.callThrough();
+
+      jasmine.clock().tick(queueConfigServiceStub.queueConfig.readyUpTimeout + 1);
+      expect(service.playerCount('6v6')).toEqual(0);
+      expect(spy).not.toHaveBeenCalledWith('slots_update', 'FAKE_QUEUE');
+      expect(spy).not.toHaveBeenCalledWith('player_leave', undefined, jasmine.any(String));
       jasmine.clock().uninstall();
     });
 
     it('should change waiting->ready->waiting when all players remove from the queue', async () => {
       for (let i = 0; i < 12; ++i) {
-        await service.join(i, players[i].id);
+        await service.join('6v6', i, players[i].id);
       }
 
       await wait();
-      expect(service.state).toEqual('ready');
+      expect(service.getQueue('6v6').state).toEqual('ready');
 
       // all 12 players leave
       players.forEach(p => {
@@ -432,7 +566,7 @@ describe('QueueService', () => {
       });
 
       await wait();
-      expect(service.state).toEqual('waiting');
+      expect(service.getQueue('6v6').state).toEqual('waiting');
     });
   });
 });
@@ -1,10 +1,14 @@
 import { EventEmitter } from 'events';
 import { inject } from 'inversify';
 import { provide } from 'inversify-binding-decorators';
+import { isEqual } from 'lodash';
 import { WsProviderService } from '../../core';
 import { GameService } from '../../games/services/game-service';
+import logger from '../../logger';
 import { playerModel } from '../../players/models/player';
 import { PlayerBansService } from '../../players/services/player-bans-service';
+import { Queue } from '../models/queue';
+import { QueueConfig } from '../models/queue-config';
 import { QueueSlot } from '../models/queue-slot';
 import { QueueState } from '../models/queue-state';
 import { QueueConfigService } from './queue-config-service';
@@ -12,22 +16,14 @@ import { QueueConfigService } from './queue-config-service';
 @provide(QueueService)
 export class QueueService extends EventEmitter {
 
-  public slots: QueueSlot[] = [];
-  public state: QueueState = 'waiting';
-  private timer: NodeJS.Timeout;
+  private queues = new Map<string, Queue>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  // queues whose class layout is being changed; they are going to be reset
+  private classLayoutUpdates = new Set<string>();
   private ws = this.wsProvider.ws;
 
-  public get requiredPlayerCount() {
-    return this.queueConfigService.queueConfig.classes
-      .reduce((prev, curr) => prev + curr.count, 0) * this.queueConfigService.queueConfig.teamCount;
-  }
-
-  public get playerCount() {
-    return this.slots.filter(s => !!s.playerId).length;
-  }
-
-  public get readyPlayerCount() {
-    return this.slots.filter(s => s.playerReady).length;
+  public get allQueues(): Queue[] {
+    return [ ...this.queues.values() ];
   }
 
   constructor(
@@ -38,25 +34,102 @@ export class QueueService extends EventEmitter {
   ) {
     super();
     this.playerBansService.on('player_banned', playerId => this.kick(playerId));
-    this.reset();
+    this.gameService.on('player_joined_game', playerId => this.kick(playerId));
+    this.queueConfigService.on('queue_config_update', (queueId: string, oldQueueConfig: QueueConfig) =>
+      this.onQueueConfigUpdate(queueId, oldQueueConfig));
+    this.queueConfigService.queueIds.forEach(queueId => this.reset(queueId));
+  }
+
+  public getQueue(queueId: string): Queue {
+    const queue = this.queues.get(queueId);
+    if (!queue) {
+      throw new Error('no such queue');
+    }
+
+    return queue;
+  }
+
+  public requiredPlayerCount(queueId: string): number {
+    const queueConfig = this.queueConfigService.getQueueConfig(queueId);
+    return queueConfig.classes.reduce((prev, curr) => prev + curr.count, 0) * queueConfig.teamCount;
+  }
+
+  public playerCount(queueId: string): number {
+    return this.getQueue(queueId).slots.filter(s => !!s.playerId).length;
+  }
+
+  public readyPlayerCount(queueId: string): number {
+    return this.getQueue(queueId).slots.filter(s => s.playerReady).length;
   }
 
   /**
-   * Clears all slots, resets the queue to default state.
+   * Clears all slots, resets the given queue to default state.
+   * @param queueId The queue to be reset.
    */
-  public reset() {
-    this.resetSlots();
-    this.ws.emit('queue slots update', this.slots);
-    this.updateState();
+  public reset(queueId: string) {
+    if (!this.queues.has(queueId)) {
+      this.queues.set(queueId, { id: queueId, slots: [], state: 'waiting' });
+    }
+
+    this.resetSlots(queueId);
+    this.ws.emit('queue slots update', this.getQueue(queueId).slots, queueId);
+    this.emit('slots_update', queueId);
+    this.updateState(queueId);
+  }
+
+  /**
+   * Puts the players back in the slots they occupied before the server was restarted.
+   * Slots that do not match the current class layout are left empty. Players that had been readied up are
+   * kept ready, the rest of them gets a new ready up period.
+   * @param queueId The queue to be restored.
+   * @param slots The slots as they were before the restart.
+   * @param state The state of the queue before the restart.
+   */
+  public restore(queueId: string, slots: QueueSlot[], state: QueueState) {
+    const queue = this.getQueue(queueId);
+    const restoredSlots = slots
+      .filter(saved => !!saved.playerId && !this.findQueueIdForPlayer(saved.playerId))
+      .map(saved => {
+        const slot = queue.slots.find(s => s.id === saved.id && s.gameClass === saved.gameClass);
+        if (slot && !slot.playerId) {
+          slot.playerId = saved.playerId;
+          slot.playerReady = !!saved.playerReady;
+          if (this.canMarkFriends(queueId, slot.gameClass)) {
+            slot.friend = saved.friend;
+          }
+        }
+
+        return slot;
+      })
+      .filter(slot => !!slot);
+
+    if (restoredSlots.length === 0) {
+      return;
+    }
+
+    logger.info(`restored ${restoredSlots.length} player(s) in the ${queueId} queue`);
+    this.slotsUpdated(queueId, restoredSlots);
+    restoredSlots.forEach(slot => this.emit('player_join', slot.playerId, queueId));
+
+    if (state !== 'waiting' && this.playerCount(queueId) === this.requiredPlayerCount(queueId)) {
+      this.setState(queueId, 'ready');
+    }
+
+    this.updateState(queueId);
   }
 
   /**
    * Joins the given player at the given spot.
+   * A player can be a member of one queue only; if he occupies a slot in another queue, he leaves it first.
+   * @param queueId The queue to be joined.
    * @param slotId The slot to be taken.
    * @param playerId The player to take the slot.
    * @returns List of modified slots.
    */
-  public async join(slotId: number, playerId: string, sender?: SocketIO.Socket): Promise<QueueSlot[]> {
+  public async join(queueId: string, slotId: number, playerId: string,
+                    sender?: SocketIO.Socket): Promise<QueueSlot[]> {
+    const queue = this.getQueue(queueId);
+
     const player = await playerModel.findById(playerId);
     if (!player) {
       throw new Error('no such player');
@@ -71,7 +144,7 @@ export class QueueService extends EventEmitter {
       throw new Error('player involved in a currently active game');
     }
 
-    const targetSlot = this.slots.find(s => s.id === slotId);
+    const targetSlot = queue.slots.find(s => s.id === slotId);
     if (!targetSlot) {
       throw new Error('no such slot');
     }
@@ -80,25 +153,34 @@ export class QueueService extends EventEmitter {
       throw new Error('slot already taken');
     }
 
+    if (this.classLayoutUpdates.has(queueId)) {
+      throw new Error('the queue is being reconfigured');
+    }
+
+    const currentQueueId = this.findQueueIdForPlayer(playerId);
+    if (currentQueueId && currentQueueId !== queueId) {
+      this.leave(playerId);
+    }
+
     // remove player from any slot(s) he could be occupying
-    const oldSlots = this.slots.filter(s => s.playerId === playerId);
+    const oldSlots = queue.slots.filter(s => s.playerId === playerId);
     const oldFriend = oldSlots.find(s => !!s.friend)?.friend;
     oldSlots.forEach(s => this.clearSlot(s));
 
     targetSlot.playerId = playerId;
-    if (this.state === 'ready' || this.playerCount === this.requiredPlayerCount) {
+    if (queue.state === 'ready' || this.playerCount(queueId) === this.requiredPlayerCount(queueId)) {
       targetSlot.playerReady = true;
     }
 
-    if (targetSlot.gameClass === 'medic') {
+    if (this.canMarkFriends(queueId, targetSlot.gameClass)) {
       targetSlot.friend = oldFriend;
     }
 
     const slots = [ targetSlot, ...oldSlots ];
-    this.slotsUpdated(slots, sender);
-    this.emit('player_join', playerId);
+    this.slotsUpdated(queueId, slots, sender);
+    this.emit('player_join', playerId, queueId);
 
-    setImmediate(() => this.updateState());
+    setImmediate(() => this.updateState(queueId));
     return slots;
   }
 
@@ -107,83 +189,148 @@ export class QueueService extends EventEmitter {
    * @param playerId The player to leave.
    */
   public leave(playerId: string, sender?: SocketIO.Socket): QueueSlot {
-    const slot = this.slots.find(s => s.playerId === playerId);
-    if (slot) {
-      if (slot.playerReady && (this.state === 'ready' || this.state === 'launching')) {
-        throw new Error('cannot leave at this stage');
-      }
-
-      this.clearSlot(slot);
-      this.slotsUpdated([ slot ], sender);
-      this.emit('player_leave', playerId);
-      setImmediate(() => this.updateState());
-      return slot;
-    } else {
+    const queueId = this.findQueueIdForPlayer(playerId);
+    if (!queueId) {
       return null;
     }
-  }
 
-  public kick(...playerIds: string[]) {
-    if (this.state === 'launching') {
-      return;
+    const queue = this.getQueue(queueId);
+    const slot = queue.slots.find(s => s.playerId === playerId);
+    if (slot.playerReady && (queue.state === 'ready' || queue.state === 'launching')) {
+      throw new Error('cannot leave at this stage');
     }
 
-    const slots = this.slots.filter(s => playerIds.includes(s.playerId));
-    slots.forEach(s => this.emit('player_leave', s.playerId));
-    slots.forEach(s => this.clearSlot(s));
-    this.slotsUpdated(slots);
-    setImmediate(() => this.updateState());
+    this.clearSlot(slot);
+    this.slotsUpdated(queueId, [ slot ], sender);
+    this.emit('player_leave', playerId, queueId);
+    setImmediate(() => this.updateState(queueId));
+    return slot;
+  }
+
+  /**
+   * Removes the given players from all the queues they are in, except for the queues that are launching.
+   */
+  public kick(...playerIds: string[]) {
+    this.allQueues
+      .filter(queue => queue.state !== 'launching')
+      .forEach(queue => this.kickFromQueue(queue.id, playerIds));
   }
 
   public isInQueue(playerId: string): boolean {
-    return !!this.slots.find(s => s.playerId === playerId);
+    return !!this.findQueueIdForPlayer(playerId);
+  }
+
+  /**
+   * Finds the queue the given player is a member of.
+   * @returns The queue id or undefined if the player is not in any queue.
+   */
+  public findQueueIdForPlayer(playerId: string): string {
+    return this.allQueues.find(queue => queue.slots.some(s => s.playerId === playerId))?.id;
   }
 
   public ready(playerId: string, sender?: SocketIO.Socket): QueueSlot {
-    if (this.state !== 'ready') {
-      throw new Error('queue not ready');
+    const queueId = this.findQueueIdForPlayer(playerId);
+    if (!queueId) {
+      throw new Error('player is not in the queue');
     }
 
-    const slot = this.slots.find(s => s.playerId === playerId);
-    if (slot) {
-      slot.playerReady = true;
-      this.slotsUpdated([ slot ], sender);
-      this.updateState();
-      return slot;
-    } else {
-      throw new Error('player is not in the queue');
+    const queue = this.getQueue(queueId);
+    if (queue.state !== 'ready') {
+      throw new Error('queue not ready');
     }
+
+    const slot = queue.slots.find(s => s.playerId === playerId);
+    slot.playerReady = true;
+    this.slotsUpdated(queueId, [ slot ], sender);
+    this.updateState(queueId);
+    return slot;
   }
 
   public async markFriend(playerId: string, friendId: string, sender?: SocketIO.Socket) {
-    if (this.state === 'launching') {
-      throw new Error('can\'t mark friends now');
+    const queueId = this.findQueueIdForPlayer(playerId);
+    if (!queueId) {
+      throw new Error('player is not in the queue');
     }
 
-    const slot = this.slots.find(s => s.playerId === playerId);
-    if (!slot) {
-      throw new Error('player is not in the queue');
+    const queue = this.getQueue(queueId);
+    if (queue.state === 'launching') {
+      throw new Error('can\'t mark friends now');
     }
 
-    if (slot.gameClass !== 'medic') { // todo make this configurable
-      throw new Error('only medics can mark friends');
+    const slot = queue.slots.find(s => s.playerId === playerId);
+    if (!this.canMarkFriends(queueId, slot.gameClass)) {
+      throw new Error(`${slot.gameClass} cannot mark friends`);
     }
 
-    const friendSlot = this.slots.find(s => s.playerId === friendId);
+    const friendSlot = queue.slots.find(s => s.playerId === friendId);
     if (friendSlot && friendSlot.gameClass === slot.gameClass) {
       throw new Error('cannot mark this player as a friend');
     }
 
+    // each friendship binds two players to one team
+    const { maxFriendsPerTeam, teamCount } = this.queueConfigService.getQueueConfig(queueId);
+    const friendCount = queue.slots.filter(s => !!s.friend && s !== slot).length;
+    if (friendId && friendCount >= maxFriendsPerTeam * teamCount) {
+      throw new Error('too many friends marked in this queue');
+    }
+
     slot.friend = friendId;
-    this.slotsUpdated([ slot ], sender);
+    this.slotsUpdated(queueId, [ slot ], sender);
     return slot;
   }
 
-  private resetSlots() {
+  /**
+   * Changes the config of the given queue.
+   * The config can be changed only when the queue is in the waiting state; changing the class layout
+   * requires the queue to be empty and nobody can join until the new layout is applied.
+   * @param queueId The queue to be updated.
+   * @param changes Fields of the config to be altered.
+   */
+  public async updateQueueConfig(queueId: string, changes: Partial<QueueConfig>): Promise<QueueConfig> {
+    const queue = this.getQueue(queueId);
+    if (queue.state !== 'waiting') {
+      throw new Error(`cannot change the queue config while the queue is ${queue.state}`);
+    }
+
+    const oldQueueConfig = this.queueConfigService.getQueueConfig(queueId);
+    const changesClassLayout = !this.hasSameClassLayout(oldQueueConfig, { ...oldQueueConfig, ...changes });
+    if (changesClassLayout && this.playerCount(queueId) > 0) {
+      throw new Error('cannot change the class layout while there are players in the queue');
+    }
+
+    if (!changesClassLayout) {
+      return await this.queueConfigService.updateQueueConfig(queueId, changes);
+    }
+
+    this.classLayoutUpdates.add(queueId);
+    try {
+      return await this.queueConfigService.updateQueueConfig(queueId, changes);
+    } finally {
+      this.classLayoutUpdates.delete(queueId);
+    }
+  }
+
+  private onQueueConfigUpdate(queueId: string, oldQueueConfig: QueueConfig) {
+    const queueConfig = this.queueConfigService.getQueueConfig(queueId);
+    if (!this.hasSameClassLayout(oldQueueConfig, queueConfig)) {
+      this.reset(queueId);
+    }
+  }
+
+  private hasSameClassLayout(a: QueueConfig, b: QueueConfig): boolean {
+    const layout = (queueConfig: QueueConfig) => ({
+      teamCount: queueConfig.teamCount,
+      classes: queueConfig.classes.map(({ name, count }) => ({ name, count })),
+    });
+    return isEqual(layout(a), layout(b));
+  }
+
+  private resetSlots(queueId: string) {
+    const queueConfig = this.queueConfigService.getQueueConfig(queueId);
     let lastId = 0;
-    this.slots = this.queueConfigService.queueConfig.classes.reduce((prev, curr) => {
+    this.getQueue(queueId).slots = queueConfig.classes.reduce((prev, curr) => {
       const tmpSlots = [];
-      for (let i = 0; i < curr.count * this.queueConfigService.queueConfig.teamCount; ++i) {
+      for (let i = 0; i < curr.count * queueConfig.teamCount; ++i) {
         tmpSlots.push({ id: lastId++, gameClass: curr.name, playerReady: false, votesForMapChange: false });
       }
 
@@ -191,70 +338,85 @@ export class QueueService extends EventEmitter {
     }, []);
   }
 
-  private updateState() {
-    switch (this.state) {
+  private updateState(queueId: string) {
+    const queue = this.getQueue(queueId);
+    switch (queue.state) {
       case 'waiting':
-        if (this.playerCount === this.requiredPlayerCount) {
-          this.setState('ready');
+        if (this.playerCount(queueId) === this.requiredPlayerCount(queueId)) {
+          this.setState(queueId, 'ready');
         }
         break;
 
       case 'ready':
-        if (this.playerCount === 0) {
-          this.setState('waiting');
-        } else if (this.readyPlayerCount === this.requiredPlayerCount) {
-          this.setState('launching');
+        if (this.playerCount(queueId) === 0) {
+          this.setState(queueId, 'waiting');
+        } else if (this.readyPlayerCount(queueId) === this.requiredPlayerCount(queueId)) {
+          this.setState(queueId, 'launching');
         }
         break;
 
       case 'launching':
-        this.setState('waiting');
+        this.setState(queueId, 'waiting');
         break;
     }
   }
 
-  private setState(state: QueueState) {
-    if (state !== this.state) {
-      this.onStateChange(this.state, state);
-      this.state = state;
-      this.ws.emit('queue state update', state);
-      this.emit('state_change', state);
+  private setState(queueId: string, state: QueueState) {
+    const queue = this.getQueue(queueId);
+    if (state !== queue.state) {
+      this.onStateChange(queueId, queue.state, state);
+      queue.state = state;
+      this.ws.emit('queue state update', state, queueId);
+      this.emit('state_change', state, queueId);
     }
   }
 
-  private onStateChange(oldState: QueueState, newState: QueueState) {
+  private onStateChange(queueId: string, oldState: QueueState, newState: QueueState) {
     if (oldState === 'waiting' && newState === 'ready') {
-      this.timer = setTimeout(() => this.readyUpTimeout(), this.queueConfigService.queueConfig.readyUpTimeout);
+      const { readyUpTimeout } = this.queueConfigService.getQueueConfig(queueId);
+      this.timers.set(queueId, setTimeout(() => this.readyUpTimeout(queueId), readyUpTimeout));
     } else if (oldState === 'ready' && newState === 'launching') {
-      clearTimeout(this.timer);
+      clearTimeout(this.timers.get(queueId));
     }
   }
 
-  private readyUpTimeout() {
-    if (this.readyPlayerCount < this.requiredPlayerCount) {
-      this.kickUnreadyPlayers();
+  private readyUpTimeout(queueId: string) {
+    if (this.readyPlayerCount(queueId) < this.requiredPlayerCount(queueId)) {
+      this.kickUnreadyPlayers(queueId);
     }
 
-    const nextTimeout =
-      this.queueConfigService.queueConfig.queueReadyTimeout - this.queueConfigService.queueConfig.readyUpTimeout;
+    const queueConfig = this.queueConfigService.getQueueConfig(queueId);
+    const nextTimeout = queueConfig.queueReadyTimeout - queueConfig.readyUpTimeout;
 
     if (nextTimeout > 0) {
-      setTimeout(() => this.unreadyQueue(), nextTimeout);
+      setTimeout(() => this.unreadyQueue(queueId), nextTimeout);
     } else {
-      this.unreadyQueue();
+      this.unreadyQueue(queueId);
     }
   }
 
-  private kickUnreadyPlayers() {
-    const slots = this.slots.filter(s => !s.playerReady);
-    this.kick(...slots.map(s => s.playerId));
+  private kickUnreadyPlayers(queueId: string) {
+    const slots = this.getQueue(queueId).slots.filter(s => !!s.playerId && !s.playerReady);
+    this.kickFromQueue(queueId, slots.map(s => s.playerId));
   }
 
-  private unreadyQueue() {
-    const slots = this.slots.filter(s => s.playerReady);
+  private kickFromQueue(queueId: string, playerIds: string[]) {
+    const slots = this.getQueue(queueId).slots.filter(s => !!s.playerId && playerIds.includes(s.playerId));
+    if (slots.length === 0) {
+      return;
+    }
+
+    slots.forEach(s => this.emit('player_leave', s.playerId, queueId));
+    slots.forEach(s => this.clearSlot(s));
+    this.slotsUpdated(queueId, slots);
+    setImmediate(() => this.updateState(queueId));
+  }
+
+  private unreadyQueue(queueId: string) {
+    const slots = this.getQueue(queueId).slots.filter(s => s.playerReady);
     slots.forEach(s => s.playerReady = false);
-    this.slotsUpdated(slots);
-    this.setState('waiting');
+    this.slotsUpdated(queueId, slots);
+    this.setState(queueId, 'waiting');
   }
 
   private clearSlot(slot: QueueSlot) {
@@ -263,13 +425,19 @@ export class QueueService extends EventEmitter {
     slot.playerReady = false;
   }
 
-  private slotsUpdated(slots: QueueSlot[], sender?: SocketIO.Socket) {
+  private canMarkFriends(queueId: string, gameClass: string): boolean {
+    return this.queueConfigService.getQueueConfig(queueId).friendMarkingClasses.includes(gameClass);
+  }
+
+  private slotsUpdated(queueId: string, slots: QueueSlot[], sender?: SocketIO.Socket) {
     if (sender) {
       // broadcast event to everyone except the sender
-      sender.broadcast.emit('queue slots update', slots);
+      sender.broadcast.emit('queue slots update', slots, queueId);
     } else {
-      this.ws.emit('queue slots update', slots);
+      this.ws.emit('queue slots update', slots, queueId);
     }
+
+    this.emit('slots_update', queueId);
   }
 
 }
@@ -0,0 +1,80 @@
+import { inject, postConstruct } from 'inversify';
+import { provide } from 'inversify-binding-decorators';
+import { GameService } from '../../games/services/game-service';
+import logger from '../../logger';
+import { PlayerBansService } from '../../players/services/player-bans-service';
+import { QueueSlot } from '../models/queue-slot';
+import { QueueSnapshot, queueSnapshotModel } from '../models/queue-snapshot';
+import { QueueConfigService } from './queue-config-service';
+import { QueueService } from './queue-service';
+
+/**
+ * Stores the state of every queue as it changes and brings it back on startup.
+ */
+@provide(QueueSnapshotService)
+export class QueueSnapshotService {
+
+  // writes are chained so that they are applied in order
+  private writes = Promise.resolve();
+
+  constructor(
+    @inject(QueueService) private queueService: QueueService,
+    @inject(QueueConfigService) private queueConfigService: QueueConfigService,
+    @inject(GameService) private gameService: GameService,
+    @inject(PlayerBansService) private playerBansService: PlayerBansService,
+  ) { }
+
+  @postConstruct()
+  public async initialize() {
+    // a stored config can change the class layout, which resets the queue
+    await this.queueConfigService.ready;
+
+    let snapshots: QueueSnapshot[] = [];
+    try {
+      // read the snapshots before any change of the queues overwrites them
+      snapshots = await queueSnapshotModel.find().lean();
+    } catch (error) {
+      logger.error(`could not load queue snapshots (${error.message})`);
+    }
+
+    this.queueService.on('slots_update', (queueId: string) => this.saveQueue(queueId));
+    this.queueService.on('state_change', (state: string, queueId: string) => this.saveQueue(queueId));
+
+    for (const snapshot of snapshots.filter(s => this.queueConfigService.queueIds.includes(s.queueId))) {
+      try {
+        await this.restoreQueue(snapshot);
+      } catch (error) {
+        logger.error(`could not restore the ${snapshot.queueId} queue (${error.message})`);
+      }
+    }
+  }
+
+  private async restoreQueue(snapshot: QueueSnapshot) {
+    // players could have been banned or put into a game in the meantime
+    const slots: QueueSlot[] = [];
+    for (const slot of snapshot.slots) {
+      if (!slot.playerId) {
+        continue;
+      }
+
+      const bans = await this.playerBansService.getActiveBansForPlayer(slot.playerId);
+      if (bans.length === 0 && !(await this.gameService.activeGameForPlayer(slot.playerId))) {
+        slots.push(slot);
+      }
+    }
+
+    this.queueService.restore(snapshot.queueId, slots, snapshot.state);
+  }
+
+  private saveQueue(queueId: string) {
+    this.writes = this.writes.then(async () => {
+      try {
+        const { slots, state } = this.queueService.getQueue(queueId);
+        await queueSnapshotModel.updateOne({ queueId }, { slots, state, savedAt: new Date() }, { upsert: true });
+      } catch (error) {
+        logger.error(`could not save the ${queueId} queue (${error.message})`);
+      }
+    });
+  }
+
+}
@@ -0,0 +1,131 @@
+import { QueueConfig } from '../models/queue-config';
+import { validateQueueConfig } from './validate-queue-config';
+
+describe('validateQueueConfig()', () => {
+  let queueConfig: QueueConfig;
+
+  beforeEach(() => {
+    queueConfig = {
+      queueId: 'FAKE_QUEUE',
+      teamCount: 2,
+      classes: [
+        { name: 'soldier', count: 2 },
+        { name: 'medic', count: 1 },
+      ],
+      readyUpTimeout: 40000,
+      queueReadyTimeout: 60000,
+      maps: [
+        { name: 'cp_badlands', execConfigs: [ 'etf2l_6v6_5cp' ], weight: 1 },
+        { name: 'cp_process_final', execConfigs: [ 'etf2l_6v6_5cp' ], weight: 1 },
+      ],
+      mapVoteOptionCount: 3,
+      mapCooldown: 1,
+      friendMarkingClasses: [ 'medic' ],
+      maxFriendsPerTeam: 1,
+      balancingStrategy: 'average-skill',
+      skillRatingMode: 'manual',
+      joinGameTimeout: 300000,
+      gameServerRegions: [],
+      gameServerTags: [ 'pickup' ],
+    };
+  });
+
+  it('should accept a valid config', () => {
+    expect(() => validateQueueConfig(queueConfig)).not.toThrow();
+  });
+
+  it('should deny empty class list', () => {
+    queueConfig.classes = [];
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should deny invalid player count', () => {
+    queueConfig.classes[0].count = 0;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should deny duplicate classes', () => {
+    queueConfig.classes.push({ name: 'soldier', count: 1 });
+    expect(() => validateQueueConfig(queueConfig)).toThrowError('duplicate classes');
+  });
+
+  it('should deny queueReadyTimeout shorter than readyUpTimeout', () => {
+    queueConfig.queueReadyTimeout = 30000;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should deny empty map pool', () => {
+    queueConfig.maps = [];
+    expect(() => validateQueueConfig(queueConfig)).toThrowError('the map pool cannot be empty');
+  });
+
+  it('should deny duplicate maps', () => {
+    queueConfig.maps.push({ name: 'cp_badlands', execConfigs: [], weight: 1 });
+    expect(() => validateQueueConfig(queueConfig)).toThrowError('duplicate maps');
+  });
+
+  it('should deny non-positive map weights', () => {
+    queueConfig.maps[0].weight = 0;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should deny map vote with no options', () => {
+    queueConfig.mapVoteOptionCount = 0;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should accept no map cooldown', () => {
+    queueConfig.mapCooldown = 0;
+    expect(() => validateQueueConfig(queueConfig)).not.toThrow();
+  });
+
+  it('should deny negative map cooldown', () => {
+    queueConfig.mapCooldown = -1;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should deny friend marking classes that are not played in the queue', () => {
+    queueConfig.friendMarkingClasses = [ 'demoman' ];
+    expect(() => validateQueueConfig(queueConfig)).toThrowError('demoman is not played in this queue');
+  });
+
+  it('should deny negative friend count', () => {
+    queueConfig.maxFriendsPerTeam = -1;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should deny non-positive class weights', () => {
+    queueConfig.classes[1].weight = 0;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError('invalid weight for medic');
+  });
+
+  it('should deny unknown balancing strategies', () => {
+    queueConfig.balancingStrategy = 'FAKE_STRATEGY' as any;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should deny unknown skill rating modes', () => {
+    queueConfig.skillRatingMode = 'FAKE_MODE' as any;
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+
+  it('should accept no join deadline', () => {
+    queueConfig.joinGameTimeout = 0;
+    expect(() => validateQueueConfig(queueConfig)).not.toThrow();
+  });
+
+  it('should deny invalid game server tags', () => {
+    queueConfig.gameServerTags = [ '' ];
+    expect(() => validateQueueConfig(queueConfig)).toThrowError('gameServerTags must be an array of names');
+  });
+
+  it('should deny duplicate game server regions', () => {
+    queueConfig.gameServerRegions = [ 'eu', 'eu' ];
+    expect(() => validateQueueConfig(queueConfig)).toThrowError('duplicate gameServerRegions');
+  });
+
+  it('should deny configs that could inject rcon commands', () => {
+    queueConfig.maps[0].execConfigs = [ 'etf2l_6v6_5cp; rcon_password foo' ];
+    expect(() => validateQueueConfig(queueConfig)).toThrowError();
+  });
+});
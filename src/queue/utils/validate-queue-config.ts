@@ -0,0 +1,138 @@
+import { balancingStrategyNames } from '../../games/utils/balancing-strategies';
+import { QueueConfig } from '../models/queue-config';
+
+// map and config names end up in rcon commands, make sure nothing else gets in there
+const identifierRegex = /^[\w\-.\/]+$/;
+
+function isPositiveInteger(value: any): boolean {
+  return Number.isInteger(value) && value > 0;
+}
+
+function hasDuplicates(values: string[]): boolean {
+  return new Set(values).size !== values.length;
+}
+
+/**
+ * Make sure the given queue config is sane.
+ * @throws Error describing the first problem found.
+ */
+export function validateQueueConfig(queueConfig: QueueConfig) {
+  if (queueConfig.teamCount !== 2) {
+    throw new Error('teamCount must be 2');
+  }
+
+  if (!Array.isArray(queueConfig.classes) || queueConfig.classes.length === 0) {
+    throw new Error('at least one class is required');
+  }
+
+  for (const gameClass of queueConfig.classes) {
+    if (typeof gameClass.name !== 'string' || !identifierRegex.test(gameClass.name)) {
+      throw new Error(`invalid class name: ${gameClass.name}`);
+    }
+
+    if (!isPositiveInteger(gameClass.count)) {
+      throw new Error(`invalid player count for ${gameClass.name}`);
+    }
+
+    if (gameClass.weight !== undefined && (typeof gameClass.weight !== 'number' || !(gameClass.weight > 0))) {
+      throw new Error(`invalid weight for ${gameClass.name}`);
+    }
+  }
+
+  if (hasDuplicates(queueConfig.classes.map(cls => cls.name))) {
+    throw new Error('duplicate classes');
+  }
+
+  if (!isPositiveInteger(queueConfig.readyUpTimeout)) {
+    throw new Error('readyUpTimeout must be a positive integer');
+  }
+
+  if (!isPositiveInteger(queueConfig.queueReadyTimeout)) {
+    throw new Error('queueReadyTimeout must be a positive integer');
+  }
+
+  if (queueConfig.queueReadyTimeout < queueConfig.readyUpTimeout) {
+    throw new Error('queueReadyTimeout cannot be shorter than readyUpTimeout');
+  }
+
+  if (!Array.isArray(queueConfig.maps) || queueConfig.maps.length === 0) {
+    throw new Error('the map pool cannot be empty');
+  }
+
+  for (const map of queueConfig.maps) {
+    if (typeof map.name !== 'string' || !identifierRegex.test(map.name)) {
+      throw new Error(`invalid map: ${map.name}`);
+    }
+
+    if (map.displayName !== undefined && typeof map.displayName !== 'string') {
+      throw new Error(`invalid display name for ${map.name}`);
+    }
+
+    if (typeof map.weight !== 'number' || !(map.weight > 0)) {
+      throw new Error(`invalid weight for ${map.name}`);
+    }
+
+    if (!Array.isArray(map.execConfigs)) {
+      throw new Error(`execConfigs for ${map.name} must be an array`);
+    }
+
+    for (const execConfig of map.execConfigs) {
+      if (typeof execConfig !== 'string' || !identifierRegex.test(execConfig)) {
+        throw new Error(`invalid config: ${execConfig}`);
+      }
+    }
+  }
+
+  if (hasDuplicates(queueConfig.maps.map(m => m.name))) {
+    throw new Error('duplicate maps');
+  }
+
+  if (!isPositiveInteger(queueConfig.mapVoteOptionCount)) {
+    throw new Error('mapVoteOptionCount must be a positive integer');
+  }
+
+  if (!Number.isInteger(queueConfig.mapCooldown) || queueConfig.mapCooldown < 0) {
+    throw new Error('mapCooldown must be a non-negative integer');
+  }
+
+  if (!Array.isArray(queueConfig.friendMarkingClasses)) {
+    throw new Error('friendMarkingClasses must be an array');
+  }
+
+  for (const gameClass of queueConfig.friendMarkingClasses) {
+    if (!queueConfig.classes.some(cls => cls.name === gameClass)) {
+      throw new Error(`${gameClass} is not played in this queue`);
+    }
+  }
+
+  if (hasDuplicates(queueConfig.friendMarkingClasses)) {
+    throw new Error('duplicate friend marking classes');
+  }
+
+  if (!Number.isInteger(queueConfig.maxFriendsPerTeam) || queueConfig.maxFriendsPerTeam < 0) {
+    throw new Error('maxFriendsPerTeam must be a non-negative integer');
+  }
+
+  if (!balancingStrategyNames.includes(queueConfig.balancingStrategy)) {
+    throw new Error(`unknown balancing strategy: ${queueConfig.balancingStrategy}`);
+  }
+
+  if (!['manual', 'automatic'].includes(queueConfig.skillRatingMode)) {
+    throw new Error('skillRatingMode must be either manual or automatic');
+  }
+
+  if (!Number.isInteger(queueConfig.joinGameTimeout) || queueConfig.joinGameTimeout < 0) {
+    throw new Error('joinGameTimeout must be a non-negative integer');
+  }
+
+  for (const key of [ 'gameServerRegions', 'gameServerTags' ]) {
+    const values = queueConfig[key];
+    if (!Array.isArray(values) || values.some(value => typeof value !== 'string' || !value)) {
+      throw new Error(`${key} must be an array of names`);
+    }
+
+    if (hasDuplicates(values)) {
+      throw new Error(`duplicate ${key}`);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { weightedSample } from './weighted-sample';
+
+describe('weightedSample()', () => {
+  const items = [
+    { name: 'a', weight: 1 },
+    { name: 'b', weight: 1 },
+    { name: 'c', weight: 1 },
+    { name: 'd', weight: 1 },
+  ];
+
+  it('should pick the given number of distinct items', () => {
+    const picked = weightedSample(items, i => i.weight, 3);
+    expect(picked.length).toBe(3);
+    expect(new Set(picked).size).toBe(3);
+    expect(picked.every(p => items.includes(p))).toBe(true);
+  });
+
+  it('should not pick more items than there are', () => {
+    expect(weightedSample(items, i => i.weight, 10).length).toBe(4);
+  });
+
+  it('should respect the weights', () => {
+    spyOn(Math, 'random').and.returnValue(0.5);
+    const weighted = [
+      { name: 'a', weight: 1 },
+      { name: 'b', weight: 8 },
+      { name: 'c', weight: 1 },
+    ];
+    expect(weightedSample(weighted, i => i.weight, 1)).toEqual([ weighted[1] ]);
+  });
+});
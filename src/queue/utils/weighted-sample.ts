@@ -0,0 +1,22 @@
+/**
+ * Picks count distinct items at random; the probability of an item being picked on each draw is proportional to its
+ * weight.
+ */
+export function weightedSample<T>(items: T[], weight: (item: T) => number, count: number): T[] {
+  const pool = [ ...items ];
+  const picked: T[] = [];
+
+  while (picked.length < count && pool.length > 0) {
+    const totalWeight = pool.reduce((sum, item) => sum + weight(item), 0);
+    let target = Math.random() * totalWeight;
+    let index = pool.findIndex(item => (target -= weight(item)) < 0);
+    if (index < 0) {
+      // floating point leftovers
+      index = pool.length - 1;
+    }
+
+    picked.push(...pool.splice(index, 1));
+  }
+
+  return picked;
+}